@@ -1,6 +1,8 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import '@/styles/globals.css'
+import AuthProvider from '@/components/AuthProvider'
+import SubjectProvider from '@/components/SubjectProvider'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -16,7 +18,11 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        <AuthProvider>
+          <SubjectProvider>{children}</SubjectProvider>
+        </AuthProvider>
+      </body>
     </html>
   )
 }
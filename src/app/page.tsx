@@ -9,28 +9,58 @@ import FileUpload from '@/components/FileUpload';
 import Dashboard from '@/components/Dashboard';
 import ScheduleGenerator from '@/components/ScheduleGenerator';
 import StudyTimer from '@/components/StudyTimer';
+import PaperLibrary from '@/components/PaperLibrary';
+import PracticeQuiz from '@/components/PracticeQuiz';
+import SignInForm from '@/components/SignInForm';
+import { useAuth } from '@/components/AuthProvider';
+import { useSubject } from '@/components/SubjectProvider';
+import { StudyPlan } from '@/types';
+import { useSyncStatus } from '@/lib/syncQueue';
 import {
   ChartBarIcon,
   CalendarIcon,
   ClockIcon,
   ArrowUpTrayIcon,
+  BookOpenIcon,
+  ArrowRightOnRectangleIcon,
+  AcademicCapIcon,
 } from '@heroicons/react/24/outline';
 
-type Tab = 'upload' | 'dashboard' | 'schedule' | 'timer';
+type Tab = 'upload' | 'library' | 'dashboard' | 'practice' | 'schedule' | 'timer';
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<Tab>('upload');
   const [refreshKey, setRefreshKey] = useState(0);
+  const [studyPlan, setStudyPlan] = useState<StudyPlan | null>(null);
+  const { online, pending } = useSyncStatus();
+  const { user, loading, signOut } = useAuth();
+  const { subjects, subject, setSubject, refreshSubjects } = useSubject();
+  // Subject-scoped tabs remount, and so refetch, when the workspace changes
+  const scopeKey = `${refreshKey}:${subject ?? ''}`;
 
   const handleUploadComplete = () => {
     setRefreshKey(prev => prev + 1);
+    refreshSubjects();
     // Optionally switch to dashboard after upload
     setTimeout(() => setActiveTab('dashboard'), 1000);
   };
 
+  const handleStartStudying = (plan: StudyPlan) => {
+    setStudyPlan(plan);
+    setActiveTab('timer');
+  };
+
+  const handleSignOut = async () => {
+    setStudyPlan(null);
+    setActiveTab('upload');
+    await signOut();
+  };
+
   const tabs = [
     { id: 'upload' as Tab, name: 'Upload', icon: ArrowUpTrayIcon },
+    { id: 'library' as Tab, name: 'Library', icon: BookOpenIcon },
     { id: 'dashboard' as Tab, name: 'Dashboard', icon: ChartBarIcon },
+    { id: 'practice' as Tab, name: 'Practice', icon: AcademicCapIcon },
     { id: 'schedule' as Tab, name: 'Schedule', icon: CalendarIcon },
     { id: 'timer' as Tab, name: 'Timer', icon: ClockIcon },
   ];
@@ -75,70 +105,126 @@ export default function Home() {
                 Smart exam preparation with AI-powered insights
               </p>
             </div>
-          </div>
-        </div>
-
-        {/* Navigation Tabs */}
-        <div className="border-t border-gray-200">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-            <nav className="flex space-x-8" aria-label="Tabs">
-              {tabs.map((tab) => {
-                const Icon = tab.icon;
-                const isActive = activeTab === tab.id;
-                return (
+            <div className="flex items-center gap-4">
+              {(!online || pending > 0) && (
+                <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-yellow-50 text-yellow-800 text-sm">
+                  <div className={`w-2 h-2 rounded-full ${online ? 'bg-yellow-500' : 'bg-red-500'}`} />
+                  {online ? 'Online' : 'Offline'}
+                  {pending > 0 && ` • ${pending} change(s) waiting to sync`}
+                </div>
+              )}
+              {user && (
+                <select
+                  value={subject ?? ''}
+                  onChange={(e) => setSubject(e.target.value || null)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  title="Subject workspace"
+                >
+                  <option value="">All subjects</option>
+                  {subject && !subjects.includes(subject) && <option value={subject}>{subject}</option>}
+                  {subjects.map(s => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+              )}
+              {user && (
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-700">{user.name || user.email}</span>
                   <button
-                    key={tab.id}
-                    onClick={() => setActiveTab(tab.id)}
-                    className={`
-                      flex items-center gap-2 py-4 px-1 border-b-2 font-medium text-sm
-                      transition-colors duration-200
-                      ${isActive
-                        ? 'border-primary-500 text-primary-600'
-                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-                      }
-                    `}
+                    onClick={handleSignOut}
+                    className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+                    title="Sign out"
                   >
-                    <Icon className="w-5 h-5" />
-                    {tab.name}
+                    <ArrowRightOnRectangleIcon className="w-5 h-5" />
+                    Sign out
                   </button>
-                );
-              })}
-            </nav>
+                </div>
+              )}
+            </div>
           </div>
         </div>
+
+        {/* Navigation Tabs */}
+        {user && (
+          <div className="border-t border-gray-200">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <nav className="flex space-x-8" aria-label="Tabs">
+                {tabs.map((tab) => {
+                  const Icon = tab.icon;
+                  const isActive = activeTab === tab.id;
+                  return (
+                    <button
+                      key={tab.id}
+                      onClick={() => setActiveTab(tab.id)}
+                      className={`
+                        flex items-center gap-2 py-4 px-1 border-b-2 font-medium text-sm
+                        transition-colors duration-200
+                        ${isActive
+                          ? 'border-primary-500 text-primary-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                        }
+                      `}
+                    >
+                      <Icon className="w-5 h-5" />
+                      {tab.name}
+                    </button>
+                  );
+                })}
+              </nav>
+            </div>
+          </div>
+        )}
       </header>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {activeTab === 'upload' && (
-          <div>
-            <div className="text-center mb-8">
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                Upload Exam Papers
-              </h2>
-              <p className="text-gray-600">
-                Upload previous year papers to extract questions and analyze patterns
-              </p>
-            </div>
-            <FileUpload onUploadComplete={handleUploadComplete} />
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
           </div>
-        )}
+        ) : !user ? (
+          <SignInForm />
+        ) : (
+          // Keyed by user so nothing from a previous session survives a switch
+          <div key={user.id}>
+            {activeTab === 'upload' && (
+              <div>
+                <div className="text-center mb-8">
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                    Upload Exam Papers
+                  </h2>
+                  <p className="text-gray-600">
+                    Upload previous year papers to extract questions and analyze patterns
+                  </p>
+                </div>
+                <FileUpload userId={user.id} onUploadComplete={handleUploadComplete} />
+              </div>
+            )}
 
-        {activeTab === 'dashboard' && <Dashboard key={refreshKey} />}
+            {activeTab === 'library' && <PaperLibrary key={refreshKey} />}
 
-        {activeTab === 'schedule' && <ScheduleGenerator key={refreshKey} />}
+            {activeTab === 'dashboard' && <Dashboard key={scopeKey} userId={user.id} />}
 
-        {activeTab === 'timer' && (
-          <div className="py-8">
-            <div className="text-center mb-8">
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                Study Timer
-              </h2>
-              <p className="text-gray-600">
-                Use the Pomodoro technique to stay focused and productive
-              </p>
+            {activeTab === 'practice' && <PracticeQuiz key={scopeKey} userId={user.id} />}
+
+            {activeTab === 'schedule' && (
+              <ScheduleGenerator key={scopeKey} userId={user.id} onStartStudying={handleStartStudying} />
+            )}
+
+            {/* The timer stays mounted so a running plan survives tab switches */}
+            <div className={activeTab === 'timer' ? '' : 'hidden'}>
+              <div className="py-8">
+                <div className="text-center mb-8">
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                    Study Timer
+                  </h2>
+                  <p className="text-gray-600">
+                    Use the Pomodoro technique to stay focused and productive
+                  </p>
+                </div>
+                <StudyTimer userId={user.id} plan={studyPlan} onPlanEnd={() => setStudyPlan(null)} />
+              </div>
             </div>
-            <StudyTimer />
           </div>
         )}
       </main>
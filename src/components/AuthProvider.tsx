@@ -0,0 +1,90 @@
+/**
+ * Auth Provider Component - holds the signed-in user for the whole app
+ */
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api';
+import { getAuthSession, setAuthSession, subscribeToAuthSession } from '@/lib/auth';
+import { AuthError } from '@/lib/errors';
+import { clearCache, discardForeignMutations } from '@/lib/offlineStore';
+import { AuthSession, User } from '@/types';
+
+interface AuthContextValue {
+  user: User | null;
+  // True until the stored session has been restored on first render
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (name: string, email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+};
+
+export default function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const session = getAuthSession();
+    setUser(session?.user ?? null);
+    setLoading(false);
+
+    // Tokens are refreshed or revoked by the API client, possibly in another tab
+    const unsubscribe = subscribeToAuthSession(next => setUser(next?.user ?? null));
+    if (session) refreshUser();
+    return unsubscribe;
+  }, []);
+
+  // Picks up profile changes and confirms the stored session is still valid
+  const refreshUser = async () => {
+    try {
+      const current = await apiClient.getCurrentUser();
+      const session = getAuthSession();
+      if (session) setAuthSession({ ...session, user: current });
+    } catch (error) {
+      if (error instanceof AuthError) setAuthSession(null);
+      else console.error('Failed to refresh user:', error);
+    }
+  };
+
+  // Cached data and queued changes may belong to whoever used this browser before
+  const startSession = async (session: AuthSession) => {
+    await clearCache();
+    await discardForeignMutations(session.user.id);
+    setAuthSession(session);
+  };
+
+  const signIn = async (email: string, password: string) => {
+    await startSession(await apiClient.signIn(email, password));
+  };
+
+  const signUp = async (name: string, email: string, password: string) => {
+    await startSession(await apiClient.signUp(name, email, password));
+  };
+
+  const signOut = async () => {
+    try {
+      await apiClient.signOut();
+    } catch (error) {
+      // The local session is dropped regardless, so a failed revoke is not fatal
+      console.error('Sign-out error:', error);
+    }
+    setAuthSession(null);
+    await clearCache();
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
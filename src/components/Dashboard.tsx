@@ -3,18 +3,34 @@
  */
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
 import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { showErrorToast } from '@/lib/errors';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import { scopedCacheKey } from '@/lib/subjects';
 import { AnalysisResponse, TopicAnalysis } from '@/types';
-import toast from 'react-hot-toast';
+import SimilarQuestionFinder from '@/components/SimilarQuestionFinder';
+import TopicDrillDown from '@/components/TopicDrillDown';
+import TopicTrends from '@/components/TopicTrends';
+import DueReviews from '@/components/DueReviews';
+import { useSubject } from '@/components/SubjectProvider';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
-export default function Dashboard() {
+interface DashboardProps {
+  userId: string;
+}
+
+export default function Dashboard({ userId }: DashboardProps) {
   const [analysis, setAnalysis] = useState<AnalysisResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
+  const [similarSearch, setSimilarSearch] = useState<{ text: string } | null>(null);
+  const similarFinderRef = useRef<HTMLDivElement>(null);
+  const getSignal = useAbortOnUnmount();
+  const { subject } = useSubject();
 
   useEffect(() => {
     fetchAnalysis();
@@ -23,20 +39,27 @@ export default function Dashboard() {
   const fetchAnalysis = async () => {
     try {
       setLoading(true);
-      const response = await apiClient.getAnalysis();
-      setAnalysis(response.data);
-    } catch (error: any) {
+      await staleWhileRevalidate(
+        scopedCacheKey('analysis', subject),
+        () => apiClient.getAnalysis(subject ?? undefined, undefined, undefined, { signal: getSignal() }),
+        (data: AnalysisResponse) => {
+          setAnalysis(data);
+          setLoading(false);
+        }
+      );
+    } catch (error) {
       console.error('Analysis error:', error);
-      if (error.response?.status === 400) {
-        toast.error('No data available. Please upload exam papers first.');
-      } else {
-        toast.error('Failed to load analysis');
-      }
+      showErrorToast(error, 'Failed to load analysis');
     } finally {
       setLoading(false);
     }
   };
 
+  const findSimilar = (text: string) => {
+    setSimilarSearch({ text });
+    similarFinderRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -65,6 +88,7 @@ export default function Dashboard() {
   // Prepare chart data
   const topicChartData = analysis.topics.slice(0, 10).map(topic => ({
     name: topic.topic.length > 20 ? topic.topic.substring(0, 20) + '...' : topic.topic,
+    topic: topic.topic,
     questions: topic.frequency,
     importance: (topic.importance_score * 100).toFixed(0),
   }));
@@ -81,7 +105,9 @@ export default function Dashboard() {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Study Dashboard</h1>
-          <p className="text-gray-600">Comprehensive analysis of your exam preparation</p>
+          <p className="text-gray-600">
+            {subject ? `Analysis of your ${subject} exam preparation` : 'Comprehensive analysis of your exam preparation'}
+          </p>
         </div>
 
         {/* Stats Cards */}
@@ -126,7 +152,13 @@ export default function Dashboard() {
                 <YAxis />
                 <Tooltip />
                 <Legend />
-                <Bar dataKey="questions" fill="#3b82f6" name="Questions" />
+                <Bar
+                  dataKey="questions"
+                  fill="#3b82f6"
+                  name="Questions"
+                  cursor="pointer"
+                  onClick={(data) => setSelectedTopic(data.topic)}
+                />
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -147,6 +179,8 @@ export default function Dashboard() {
                   outerRadius={80}
                   fill="#8884d8"
                   dataKey="value"
+                  cursor="pointer"
+                  onClick={(entry) => setSelectedTopic(entry.name)}
                 >
                   {importanceData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.color} />
@@ -158,6 +192,12 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Spaced-Repetition Queue */}
+        <DueReviews userId={userId} />
+
+        {/* Year-over-Year Trends */}
+        <TopicTrends />
+
         {/* Important Topics */}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">
@@ -165,25 +205,26 @@ export default function Dashboard() {
           </h3>
           <div className="flex flex-wrap gap-2">
             {analysis.important_topics.map((topic, index) => (
-              <span
+              <button
                 key={index}
-                className="px-4 py-2 bg-primary-100 text-primary-700 rounded-full text-sm font-medium"
+                onClick={() => setSelectedTopic(topic)}
+                className="px-4 py-2 bg-primary-100 text-primary-700 rounded-full text-sm font-medium hover:bg-primary-200 transition-colors"
               >
                 {topic}
-              </span>
+              </button>
             ))}
           </div>
         </div>
 
         {/* Top Predicted Questions */}
-        <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">
             🎯 Top Predicted Questions
           </h3>
           <div className="space-y-3">
             {analysis.predictions.slice(0, 10).map((prediction, index) => (
               <div
-                key={prediction.id}
+                key={index}
                 className="border-l-4 border-primary-500 bg-gray-50 p-4 rounded"
               >
                 <div className="flex items-start justify-between">
@@ -198,12 +239,27 @@ export default function Dashboard() {
                     </div>
                     <p className="text-gray-700">{prediction.text}</p>
                   </div>
+                  <button
+                    onClick={() => findSimilar(prediction.text)}
+                    className="ml-4 text-xs font-medium text-primary-600 hover:text-primary-700 whitespace-nowrap"
+                  >
+                    Find similar past questions
+                  </button>
                 </div>
               </div>
             ))}
           </div>
         </div>
+
+        {/* Similar Question Finder */}
+        <div ref={similarFinderRef}>
+          <SimilarQuestionFinder searchRequest={similarSearch} />
+        </div>
       </div>
+
+      {selectedTopic && (
+        <TopicDrillDown topic={selectedTopic} onClose={() => setSelectedTopic(null)} />
+      )}
     </div>
   );
 }
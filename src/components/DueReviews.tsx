@@ -0,0 +1,108 @@
+/**
+ * Due Reviews Component - today's spaced-repetition queue
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { recordPracticeMark } from '@/lib/practice';
+import {
+  getDueReviews,
+  getReviewWeight,
+  loadReviewLog,
+  recordReview,
+  REVIEW_MINUTES,
+  ReviewLog,
+  toReviewQuestion,
+} from '@/lib/spacedRepetition';
+import { Confidence, ReviewItem } from '@/types';
+import { useSubject } from '@/components/SubjectProvider';
+
+const MAX_SHOWN = 10;
+
+const GRADE_BUTTONS: { value: Confidence; label: string; className: string }[] = [
+  { value: 'unknown', label: "Don't know", className: 'bg-red-100 text-red-800 hover:bg-red-200' },
+  { value: 'shaky', label: 'Shaky', className: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200' },
+  { value: 'confident', label: 'Confident', className: 'bg-green-100 text-green-800 hover:bg-green-200' },
+];
+
+interface DueReviewsProps {
+  userId: string;
+}
+
+export default function DueReviews({ userId }: DueReviewsProps) {
+  const [log, setLog] = useState<ReviewLog>({});
+  const { subject } = useSubject();
+
+  useEffect(() => {
+    setLog(loadReviewLog(userId));
+  }, [userId]);
+
+  const handleGrade = (item: ReviewItem, confidence: Confidence) => {
+    const question = toReviewQuestion(item);
+    recordPracticeMark(userId, question, confidence);
+    setLog(recordReview(userId, question, confidence, item.subject));
+  };
+
+  const due = getDueReviews(log, subject);
+  const tracked = Object.values(log).filter(item => !subject || item.subject === subject).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">🧠 Due for Review Today</h3>
+        {due.length > 0 && (
+          <span className="text-sm text-gray-500">
+            {due.length} question(s) • about {due.length * REVIEW_MINUTES} min
+          </span>
+        )}
+      </div>
+
+      {tracked === 0 ? (
+        <p className="text-sm text-gray-500">
+          Practise some questions and they will come back here when it is time to review them.
+        </p>
+      ) : due.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Nothing due today. {tracked} question(s) are scheduled for later review.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {due.slice(0, MAX_SHOWN).map(item => (
+            <div key={item.text} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded text-xs font-medium">
+                  {item.topic || 'General'}
+                </span>
+                {getReviewWeight(item) >= 1.5 && (
+                  <span className="bg-orange-100 text-orange-800 px-2 py-1 rounded text-xs font-medium">
+                    High priority
+                  </span>
+                )}
+                <span className="ml-auto text-xs text-gray-500">
+                  Reviewed {item.history.length} time(s)
+                </span>
+              </div>
+              <p className="text-sm text-gray-800 mb-3">{item.text}</p>
+              <div className="flex gap-2">
+                {GRADE_BUTTONS.map(button => (
+                  <button
+                    key={button.value}
+                    onClick={() => handleGrade(item, button.value)}
+                    className={`px-3 py-1 text-xs font-medium rounded-full ${button.className}`}
+                  >
+                    {button.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {due.length > MAX_SHOWN && (
+            <p className="text-sm text-gray-500">
+              +{due.length - MAX_SHOWN} more due today
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,121 +3,258 @@
  */
 'use client';
 
-import React, { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { ArrowUpTrayIcon, DocumentIcon } from '@heroicons/react/24/outline';
-import { apiClient } from '@/lib/api';
-import { PaperUploadResponse } from '@/types';
+import React, { useCallback, useRef, useState } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
+import { ArrowUpTrayIcon, DocumentIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { apiClient, createIdempotencyKey, getRetryDelay, QueuedMutationError, wait } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { CancelledError, getErrorMessage, isTransientError } from '@/lib/errors';
+import { describeRejection, FileInspection, inspectFile, MAX_FILE_SIZE } from '@/lib/fileInspection';
+import { runWithConcurrency, UPLOAD_CONCURRENCY, UPLOAD_RETRY_POLICY } from '@/lib/uploadQueue';
+import QuestionReview from '@/components/QuestionReview';
+import { useSubject } from '@/components/SubjectProvider';
+import { PaperDetail, PaperUploadResponse } from '@/types';
 import toast from 'react-hot-toast';
 
 interface FileUploadProps {
+  userId: string;
   onUploadComplete?: (response: PaperUploadResponse) => void;
 }
 
-interface ExtractedQuestion {
+type UploadStatus = 'pending' | 'uploading' | 'done' | 'queued' | 'failed';
+
+interface UploadItem {
   id: string;
-  text: string;
-  topic: string;
-  importance_score: number;
+  file: File;
+  inspection: FileInspection;
+  status: UploadStatus;
+  // Fraction of the file sent, from 0 to 1
+  progress: number;
+  // Automatic retries made in the current attempt
+  retries: number;
+  idempotencyKey: string;
+  result?: PaperUploadResponse;
+  error?: string;
+}
+
+interface RejectedFile {
+  name: string;
+  reasons: string[];
 }
 
-export default function FileUpload({ onUploadComplete }: FileUploadProps) {
+const MAX_FILES = 10;
+
+let nextUploadId = 0;
+const toUploadItem = (file: File, inspection: FileInspection): UploadItem => ({
+  id: `upload-${nextUploadId++}`,
+  file,
+  inspection,
+  status: 'pending',
+  progress: 0,
+  retries: 0,
+  idempotencyKey: createIdempotencyKey(),
+});
+
+export default function FileUpload({ userId, onUploadComplete }: FileUploadProps) {
   const [uploading, setUploading] = useState(false);
   const [year, setYear] = useState<number>(new Date().getFullYear());
-  const [subject, setSubject] = useState('');
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
-  const [extractedQuestions, setExtractedQuestions] = useState<ExtractedQuestion[]>([]);
-  const [showQuestions, setShowQuestions] = useState(false);
-
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    if (acceptedFiles.length === 0) return;
-
-    // Max 10 files
-    const filesToAdd = acceptedFiles.slice(0, 10);
-    setSelectedFiles(prev => {
-      const combined = [...prev, ...filesToAdd];
-      return combined.slice(0, 10); // Max 10 total
-    });
+  const { subject: activeSubject } = useSubject();
+  // Uploads default to the subject workspace that is open
+  const [subject, setSubject] = useState(activeSubject ?? '');
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const [inspecting, setInspecting] = useState(false);
+  // Papers from the last batch, awaiting review before the batch is reported as complete
+  const [reviewPapers, setReviewPapers] = useState<PaperDetail[] | null>(null);
+  const [batchSummary, setBatchSummary] = useState<PaperUploadResponse | null>(null);
+  const getSignal = useAbortOnUnmount();
+  const uploadsRef = useRef<UploadItem[]>([]);
+  uploadsRef.current = uploads;
+
+  const waiting = uploads.filter(item => item.status === 'pending' || item.status === 'failed');
+  const doneCount = uploads.filter(item => item.status === 'done').length;
+  const failedCount = uploads.filter(item => item.status === 'failed').length;
+  const queuedCount = uploads.filter(item => item.status === 'queued').length;
+
+  const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[]) => {
+    const nextRejected: RejectedFile[] = fileRejections.map(rejection => ({
+      name: rejection.file.name,
+      reasons: describeRejection(rejection),
+    }));
+
+    setInspecting(true);
+    try {
+      const inspected = await Promise.all(
+        acceptedFiles.map(async file => ({ file, inspection: await inspectFile(file) }))
+      );
+
+      // Same content under a different name still counts as a duplicate
+      const seen = new Set(uploadsRef.current.map(item => item.inspection.hash));
+      const added: UploadItem[] = [];
+      inspected.forEach(({ file, inspection }) => {
+        if (seen.has(inspection.hash)) {
+          nextRejected.push({ name: file.name, reasons: ['Already selected (same file contents)'] });
+        } else if (uploadsRef.current.length + added.length >= MAX_FILES) {
+          // Capped here rather than with the dropzone's maxFiles, which rejects the whole drop
+          nextRejected.push({ name: file.name, reasons: [`Only ${MAX_FILES} files can be selected`] });
+        } else {
+          seen.add(inspection.hash);
+          added.push(toUploadItem(file, inspection));
+        }
+      });
+
+      setUploads(prev => [...prev, ...added]);
+    } catch (error) {
+      console.error('Failed to read selected files:', error);
+      toast.error('Could not read the selected files');
+    } finally {
+      setRejected(nextRejected);
+      setInspecting(false);
+    }
   }, []);
 
-  const removeFile = (index: number) => {
-    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
+  const removeFile = (id: string) => {
+    setUploads(prev => prev.filter(item => item.id !== id));
   };
 
-  const handleUpload = useCallback(async () => {
-    if (selectedFiles.length === 0) {
-      toast.error('Please select at least one file');
-      return;
+  const updateUpload = (id: string, changes: Partial<UploadItem>) => {
+    setUploads(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  // Transient failures are retried with backoff inside the file's lane before it counts as failed
+  const sendWithRetries = async (item: UploadItem): Promise<PaperUploadResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await apiClient.uploadPaper(item.file, year, subject, userId, {
+          signal: getSignal(),
+          onProgress: progress => updateUpload(item.id, { progress }),
+          idempotencyKey: item.idempotencyKey,
+        });
+      } catch (error) {
+        if (attempt >= UPLOAD_RETRY_POLICY.retries || !isTransientError(error)) throw error;
+        console.warn(`Retrying upload of ${item.file.name}:`, error);
+        updateUpload(item.id, { progress: 0, retries: attempt + 1 });
+        await wait(getRetryDelay(attempt, UPLOAD_RETRY_POLICY), getSignal());
+      }
     }
+  };
+
+  // Failures are recorded on the item rather than thrown, so the rest of the batch carries on
+  const uploadOne = async (item: UploadItem): Promise<UploadItem> => {
+    updateUpload(item.id, { status: 'uploading', progress: 0, retries: 0, error: undefined });
 
+    let outcome: Partial<UploadItem>;
+    try {
+      const result = await sendWithRetries(item);
+      outcome = { status: 'done', progress: 1, result };
+    } catch (error) {
+      if (error instanceof QueuedMutationError) {
+        outcome = { status: 'queued', progress: 0 };
+      } else {
+        if (!(error instanceof CancelledError)) console.error(`Upload of ${item.file.name} failed:`, error);
+        outcome = { status: 'failed', progress: 0, error: getErrorMessage(error, 'Upload failed') };
+      }
+    }
+
+    updateUpload(item.id, outcome);
+    return { ...item, ...outcome };
+  };
+
+  const uploadBatch = async (items: UploadItem[]) => {
     if (!subject.trim()) {
       toast.error('Please enter subject name');
       return;
     }
 
     setUploading(true);
+    toast.loading(`Uploading ${items.length} file(s)...`, { id: 'upload' });
 
     try {
-      toast.loading(`Uploading ${selectedFiles.length} file(s)...`, { id: 'upload' });
+      const finished = await runWithConcurrency(items, UPLOAD_CONCURRENCY, uploadOne);
+      if (getSignal().aborted) return;
+      await summarizeBatch(finished);
+    } finally {
+      setUploading(false);
+    }
+  };
 
-      let totalQuestions = 0;
-      const allTopics = new Set<string>();
+  const summarizeBatch = async (finished: UploadItem[]) => {
+    const succeeded = finished.filter(item => item.status === 'done' && item.result);
+    const failed = finished.filter(item => item.status === 'failed').length;
+    const queued = finished.filter(item => item.status === 'queued').length;
 
-      // Upload files one by one
-      for (let i = 0; i < selectedFiles.length; i++) {
-        const file = selectedFiles[i];
-        toast.loading(`Processing ${i + 1}/${selectedFiles.length}: ${file.name}`, { id: 'upload' });
+    if (succeeded.length === 0) {
+      if (queued === finished.length) {
+        toast.success(
+          `You are offline. ${queued} file(s) will be uploaded when the backend is reachable.`,
+          { id: 'upload', duration: 5000 }
+        );
+      } else {
+        toast.error(`${failed} file(s) failed to upload. You can retry them from the list.`, { id: 'upload' });
+      }
+      return;
+    }
 
-        const response = await apiClient.uploadPaper(file, year, subject);
-        const data: PaperUploadResponse = response.data;
+    let totalQuestions = 0;
+    const allTopics = new Set<string>();
+    succeeded.forEach(item => {
+      totalQuestions += item.result!.questions_extracted;
+      item.result!.topics_identified.forEach(topic => allTopics.add(topic));
+    });
 
-        totalQuestions += data.questions_extracted;
-        data.topics_identified.forEach(topic => allTopics.add(topic));
-      }
+    toast.success(
+      `Successfully processed ${succeeded.length} file(s)! Total: ${totalQuestions} questions, ${allTopics.size} topics.` +
+        (failed > 0 ? ` ${failed} file(s) failed and can be retried.` : '') +
+        (queued > 0 ? ` ${queued} file(s) queued for when you are back online.` : ''),
+      { id: 'upload', duration: 5000 }
+    );
+
+    const summary: PaperUploadResponse = {
+      success: true,
+      message: `Processed ${succeeded.length} files`,
+      paper_id: 'batch_upload',
+      extracted_text_length: 0,
+      questions_extracted: totalQuestions,
+      topics_identified: Array.from(allTopics)
+    };
 
-      toast.success(
-        `Successfully processed ${selectedFiles.length} files! Total: ${totalQuestions} questions, ${allTopics.size} topics.`,
-        { id: 'upload', duration: 5000 }
+    // Fetch the extracted questions of the new papers for review
+    try {
+      const papers = await Promise.all(
+        succeeded.map(item => apiClient.getPaper(item.result!.paper_id, { signal: getSignal() }))
       );
+      setBatchSummary(summary);
+      setReviewPapers(papers);
+    } catch (err) {
+      console.error('Failed to fetch questions:', err);
+      if (onUploadComplete) onUploadComplete(summary);
+    }
+  };
 
-      // Fetch extracted questions for the subject
-      try {
-        const questionsResponse = await apiClient.getQuestions(subject, 100);
-        const questions = questionsResponse.data.questions || [];
-        setExtractedQuestions(questions.map((q: any, index: number) => ({
-          id: q._id || `q-${index}`,
-          text: q.text,
-          topic: q.topic || 'General',
-          importance_score: q.importance_score || 0
-        })));
-        setShowQuestions(true);
-      } catch (err) {
-        console.error('Failed to fetch questions:', err);
-      }
+  const finishReview = () => {
+    setReviewPapers(null);
+    setUploads(prev => prev.filter(item => item.status !== 'done'));
+    setSubject(activeSubject ?? '');
+    if (onUploadComplete && batchSummary) onUploadComplete(batchSummary);
+    setBatchSummary(null);
+  };
 
-      // Reset form
-      setSelectedFiles([]);
-
-      if (onUploadComplete) {
-        onUploadComplete({
-          success: true,
-          message: `Processed ${selectedFiles.length} files`,
-          paper_id: 'batch_upload',
-          extracted_text_length: 0,
-          questions_extracted: totalQuestions,
-          topics_identified: Array.from(allTopics)
-        });
-      }
-    } catch (error: any) {
-      console.error('Upload error:', error);
-      toast.error(
-        error.response?.data?.detail || 'Failed to upload files. Please try again.',
-        { id: 'upload' }
-      );
-    } finally {
-      setUploading(false);
+  const handleUpload = async () => {
+    if (uploads.length === 0) {
+      toast.error('Please select at least one file');
+      return;
     }
-  }, [selectedFiles, year, subject, onUploadComplete]);
+    if (waiting.length === 0) {
+      toast.error('All selected files have already been uploaded');
+      return;
+    }
+
+    await uploadBatch(waiting);
+  };
+
+  const retryUpload = async (item: UploadItem) => {
+    await uploadBatch([item]);
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -126,9 +263,9 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
       'image/*': ['.png', '.jpg', '.jpeg'],
       'text/plain': ['.txt'],
     },
-    maxFiles: 10,
+    maxSize: MAX_FILE_SIZE,
     multiple: true,
-    disabled: uploading || !subject.trim(),
+    disabled: uploading || inspecting || !subject.trim(),
   });
 
   return (
@@ -178,16 +315,16 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
             ? 'border-blue-500 bg-blue-50'
             : subject.trim() ? 'border-gray-300 hover:border-blue-400' : 'border-gray-200 bg-gray-50'
           }
-          ${uploading || !subject.trim() ? 'opacity-50 cursor-not-allowed' : ''}
+          ${uploading || inspecting || !subject.trim() ? 'opacity-50 cursor-not-allowed' : ''}
         `}
       >
         <input {...getInputProps()} />
         
         <div className="flex flex-col items-center">
-          {uploading ? (
+          {uploading || inspecting ? (
             <>
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4" />
-              <p className="text-gray-600">Processing files...</p>
+              <p className="text-gray-600">{uploading ? 'Processing files...' : 'Checking files...'}</p>
             </>
           ) : (
             <>
@@ -213,120 +350,171 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
         </div>
       </div>
 
+      {/* Rejected Files */}
+      {rejected.length > 0 && (
+        <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-semibold text-red-800">
+              {rejected.length} file(s) not added
+            </h3>
+            <button
+              onClick={() => setRejected([])}
+              className="text-sm text-red-600 hover:text-red-700"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {rejected.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="text-sm text-red-700">
+                <span className="font-medium">{file.name}</span>: {file.reasons.join('; ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Selected Files List */}
-      {selectedFiles.length > 0 && (
+      {uploads.length > 0 && (
         <div className="mt-6">
           <div className="flex justify-between items-center mb-3">
-            <h3 className="text-sm font-semibold text-gray-700">
-              Selected Files ({selectedFiles.length}/10)
-            </h3>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700">
+                Selected Files ({uploads.length}/{MAX_FILES})
+              </h3>
+              {(doneCount > 0 || failedCount > 0 || queuedCount > 0) && (
+                <p className="text-xs text-gray-500">
+                  {doneCount} uploaded • {failedCount} failed • {queuedCount} queued
+                </p>
+              )}
+            </div>
             <button
-              onClick={() => setSelectedFiles([])}
-              className="text-sm text-red-600 hover:text-red-700"
+              onClick={() => setUploads([])}
+              disabled={uploading}
+              className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
             >
               Clear All
             </button>
           </div>
-          <div className="space-y-2 max-h-48 overflow-y-auto">
-            {selectedFiles.map((file, index) => (
-              <div
-                key={index}
-                className="flex items-center justify-between bg-gray-50 px-4 py-3 rounded-lg border border-gray-200"
-              >
-                <div className="flex items-center gap-3">
-                  <DocumentIcon className="h-5 w-5 text-blue-500" />
-                  <div>
-                    <p className="text-sm font-medium text-gray-700">{file.name}</p>
-                    <p className="text-xs text-gray-500">
-                      {(file.size / 1024 / 1024).toFixed(2)} MB
-                    </p>
-                  </div>
-                </div>
-                <button
-                  onClick={() => removeFile(index)}
-                  className="text-red-500 hover:text-red-700 text-sm font-medium"
-                >
-                  Remove
-                </button>
-              </div>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {uploads.map(item => (
+              <UploadRow
+                key={item.id}
+                item={item}
+                disabled={uploading}
+                onRetry={() => retryUpload(item)}
+                onRemove={() => removeFile(item.id)}
+              />
             ))}
           </div>
 
           {/* Upload Button */}
-          <button
-            onClick={handleUpload}
-            disabled={uploading || !subject.trim()}
-            className="mt-4 w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {uploading ? 'Uploading...' : `Upload ${selectedFiles.length} File(s) to ${subject}`}
-          </button>
+          {waiting.length > 0 && (
+            <button
+              onClick={handleUpload}
+              disabled={uploading || !subject.trim()}
+              className="mt-4 w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {uploading ? 'Uploading...' : `Upload ${waiting.length} File(s) to ${subject}`}
+            </button>
+          )}
         </div>
       )}
 
-      {/* Extracted Questions Display */}
-      {showQuestions && extractedQuestions.length > 0 && (
-        <div className="mt-8 bg-white rounded-lg shadow-lg border border-gray-200 p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-xl font-bold text-gray-900">
-              📋 Extracted Questions for {subject}
-            </h3>
-            <div className="flex items-center gap-2">
-              <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-semibold">
-                {extractedQuestions.length} Questions
-              </span>
-              <button
-                onClick={() => setShowQuestions(false)}
-                className="text-gray-500 hover:text-gray-700"
-              >
-                ✕
-              </button>
-            </div>
-          </div>
+      {/* Question Review */}
+      {reviewPapers && (
+        <QuestionReview subject={subject} papers={reviewPapers} onDone={finishReview} />
+      )}
+    </div>
+  );
+}
 
-          <div className="space-y-3 max-h-96 overflow-y-auto">
-            {extractedQuestions.map((question, index) => (
-              <div
-                key={question.id}
-                className="bg-gradient-to-r from-blue-50 to-indigo-50 p-4 rounded-lg border border-blue-200 hover:shadow-md transition-shadow"
-              >
-                <div className="flex items-start justify-between gap-3">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="bg-blue-600 text-white px-2 py-1 rounded text-xs font-bold">
-                        Q{index + 1}
-                      </span>
-                      <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded text-xs font-medium">
-                        {question.topic}
-                      </span>
-                    </div>
-                    <p className="text-gray-800 text-sm leading-relaxed">
-                      {question.text}
-                    </p>
-                  </div>
-                  <div className="flex flex-col items-end gap-1">
-                    <span className="text-xs text-gray-500 font-medium">Importance</span>
-                    <div className="bg-gradient-to-r from-yellow-400 to-orange-500 text-white px-3 py-1 rounded-full text-sm font-bold">
-                      {(question.importance_score * 100).toFixed(0)}%
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
+interface UploadRowProps {
+  item: UploadItem;
+  disabled: boolean;
+  onRetry: () => void;
+  onRemove: () => void;
+}
+
+function UploadRow({ item, disabled, onRetry, onRemove }: UploadRowProps) {
+  const statusLabel: Record<UploadStatus, string> = {
+    pending: 'Waiting',
+    // Everything has been sent once progress reaches 1; the backend is still extracting
+    uploading: item.progress < 1
+      ? `${item.retries > 0 ? `Retry ${item.retries}: ` : ''}${Math.round(item.progress * 100)}%`
+      : 'Processing...',
+    done: 'Done',
+    queued: 'Queued offline',
+    failed: 'Failed',
+  };
+  const statusColor: Record<UploadStatus, string> = {
+    pending: 'text-gray-500',
+    uploading: 'text-blue-600',
+    done: 'text-green-600',
+    queued: 'text-yellow-700',
+    failed: 'text-red-600',
+  };
 
-          <div className="mt-4 pt-4 border-t border-gray-200">
+  return (
+    <div className="bg-gray-50 px-4 py-3 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <DocumentIcon className="h-5 w-5 text-blue-500" />
+          <div>
+            <p className="text-sm font-medium text-gray-700">{item.file.name}</p>
+            <p className="text-xs text-gray-500">
+              {(item.file.size / 1024 / 1024).toFixed(2)} MB
+              {item.inspection.pageCount !== null && ` • ${item.inspection.pageCount} page(s)`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className={`text-xs font-medium ${statusColor[item.status]}`}>
+            {statusLabel[item.status]}
+          </span>
+          {item.status === 'failed' && (
             <button
-              onClick={() => {
-                setShowQuestions(false);
-                setExtractedQuestions([]);
-                setSubject('');
-              }}
-              className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white font-semibold py-3 px-6 rounded-lg transition-all"
+              onClick={onRetry}
+              disabled={disabled}
+              className="text-blue-600 hover:text-blue-700 text-sm font-medium disabled:opacity-50"
             >
-              ✓ Done - Upload More Papers
+              Retry
             </button>
-          </div>
+          )}
+          {item.status !== 'uploading' && (
+            <button
+              onClick={onRemove}
+              disabled={disabled}
+              className="text-red-500 hover:text-red-700 text-sm font-medium disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
         </div>
+      </div>
+
+      {item.inspection.needsOcr && item.status !== 'done' && (
+        <p className="mt-2 flex items-center gap-1 text-xs text-yellow-700">
+          <ExclamationTriangleIcon className="h-4 w-4" />
+          Looks like a scanned image. Text will be read with OCR, so check the extracted questions.
+        </p>
+      )}
+      {item.status === 'uploading' && (
+        <div className="mt-2 w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-blue-600 h-2 rounded-full transition-all"
+            style={{ width: `${Math.round(item.progress * 100)}%` }}
+          />
+        </div>
+      )}
+      {item.status === 'done' && item.result && (
+        <p className="mt-2 text-xs text-gray-600">
+          {item.result.questions_extracted} questions
+          {item.result.topics_identified.length > 0 && ` • ${item.result.topics_identified.join(', ')}`}
+        </p>
+      )}
+      {item.status === 'failed' && item.error && (
+        <p className="mt-2 text-xs text-red-600">{item.error}</p>
       )}
     </div>
   );
@@ -0,0 +1,226 @@
+/**
+ * Paper Library Component - browse uploaded papers and their extraction results
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ArrowLeftIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { showErrorToast } from '@/lib/errors';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import { Paper, PaperDetail } from '@/types';
+
+export default function PaperLibrary() {
+  const [papers, setPapers] = useState<Paper[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedPaper, setSelectedPaper] = useState<PaperDetail | null>(null);
+  const [loadingPaperId, setLoadingPaperId] = useState<string | null>(null);
+  const getSignal = useAbortOnUnmount();
+
+  useEffect(() => {
+    fetchPapers();
+  }, []);
+
+  const fetchPapers = async () => {
+    try {
+      setLoading(true);
+      await staleWhileRevalidate(
+        'papers',
+        () => apiClient.getPapers({ signal: getSignal() }),
+        (data) => {
+          setPapers(data);
+          setLoading(false);
+        }
+      );
+    } catch (error) {
+      console.error('Papers error:', error);
+      showErrorToast(error, 'Failed to load papers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPaper = async (paperId: string) => {
+    try {
+      setLoadingPaperId(paperId);
+      await staleWhileRevalidate(
+        `paper:${paperId}`,
+        () => apiClient.getPaper(paperId, { signal: getSignal() }),
+        (data) => setSelectedPaper(data)
+      );
+    } catch (error) {
+      console.error('Paper detail error:', error);
+      showErrorToast(error, 'Failed to load paper');
+    } finally {
+      setLoadingPaperId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (selectedPaper) {
+    return <PaperDetailView paper={selectedPaper} onBack={() => setSelectedPaper(null)} />;
+  }
+
+  if (papers.length === 0) {
+    return (
+      <div className="text-center max-w-md mx-auto py-16">
+        <div className="text-6xl mb-4">🗂️</div>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Library is Empty</h2>
+        <p className="text-gray-600">Uploaded exam papers will appear here.</p>
+      </div>
+    );
+  }
+
+  // Group papers by subject, then by year (newest first)
+  const grouped = papers.reduce<Record<string, Record<string, Paper[]>>>((acc, paper) => {
+    const subject = paper.subject || 'Unassigned';
+    const year = paper.year ? paper.year.toString() : 'Unknown year';
+    acc[subject] = acc[subject] || {};
+    acc[subject][year] = [...(acc[subject][year] || []), paper];
+    return acc;
+  }, {});
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Paper Library</h2>
+        <p className="text-gray-600">{papers.length} uploaded paper(s) grouped by subject and year</p>
+      </div>
+
+      <div className="space-y-8">
+        {Object.keys(grouped).sort().map(subject => (
+          <div key={subject} className="bg-white rounded-lg shadow-lg p-6">
+            <h3 className="text-xl font-semibold text-gray-800 mb-4">📚 {subject}</h3>
+            {Object.keys(grouped[subject])
+              .sort((a, b) => b.localeCompare(a))
+              .map(year => (
+                <div key={year} className="mb-4 last:mb-0">
+                  <h4 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">{year}</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {grouped[subject][year].map(paper => (
+                      <button
+                        key={paper.id}
+                        onClick={() => openPaper(paper.id)}
+                        disabled={loadingPaperId !== null}
+                        className="flex items-start gap-3 text-left bg-gray-50 hover:bg-primary-50 border border-gray-200 rounded-lg p-4 transition-colors disabled:opacity-60"
+                      >
+                        <DocumentTextIcon className="w-6 h-6 text-primary-600 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-800 truncate">{paper.filename}</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {paper.questions_extracted} questions • {paper.topics_identified.length} topics
+                          </p>
+                        </div>
+                        {loadingPaperId === paper.id && (
+                          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary-600" />
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface PaperDetailViewProps {
+  paper: PaperDetail;
+  onBack: () => void;
+}
+
+function PaperDetailView({ paper, onBack }: PaperDetailViewProps) {
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-6"
+      >
+        <ArrowLeftIcon className="w-4 h-4" />
+        Back to library
+      </button>
+
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 mb-1">{paper.filename}</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          {paper.subject || 'Unassigned'} • {paper.year || 'Unknown year'}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-4 bg-blue-50 rounded-lg">
+            <div className="text-2xl font-bold text-gray-900">
+              {paper.extracted_text_length.toLocaleString()}
+            </div>
+            <div className="text-sm text-gray-600">Characters Extracted</div>
+          </div>
+          <div className="p-4 bg-green-50 rounded-lg">
+            <div className="text-2xl font-bold text-gray-900">{paper.questions.length}</div>
+            <div className="text-sm text-gray-600">Questions</div>
+          </div>
+          <div className="p-4 bg-purple-50 rounded-lg">
+            <div className="text-2xl font-bold text-gray-900">{paper.topics_identified.length}</div>
+            <div className="text-sm text-gray-600">Topics Identified</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Identified Topics */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Identified Topics</h3>
+        {paper.topics_identified.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {paper.topics_identified.map(topic => (
+              <span
+                key={topic}
+                className="px-4 py-2 bg-primary-100 text-primary-700 rounded-full text-sm font-medium"
+              >
+                {topic}
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No topics were identified in this paper.</p>
+        )}
+      </div>
+
+      {/* Extracted Questions */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Extracted Questions</h3>
+        {paper.questions.length > 0 ? (
+          <div className="space-y-3">
+            {paper.questions.map((question, index) => (
+              <div key={index} className="border-l-4 border-primary-500 bg-gray-50 p-4 rounded">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-bold text-primary-600">Q{index + 1}</span>
+                  {question.topic && (
+                    <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
+                      {question.topic}
+                    </span>
+                  )}
+                  {question.difficulty && (
+                    <span className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded">
+                      {question.difficulty}
+                    </span>
+                  )}
+                </div>
+                <p className="text-gray-700">{question.text}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No questions were extracted from this paper.</p>
+        )}
+      </div>
+    </div>
+  );
+}
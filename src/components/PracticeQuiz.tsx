@@ -0,0 +1,381 @@
+/**
+ * Practice Quiz Component - self-quiz over past and predicted questions
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { showErrorToast } from '@/lib/errors';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import {
+  countByConfidence,
+  filterByTopic,
+  filterByYears,
+  getQuestionKey,
+  loadPracticeLog,
+  orderForPractice,
+  PracticeLog,
+  QuizSource,
+  recordPracticeMark,
+} from '@/lib/practice';
+import { recordReview } from '@/lib/spacedRepetition';
+import { scopedCacheKey } from '@/lib/subjects';
+import { Confidence, Question } from '@/types';
+import { useSubject } from '@/components/SubjectProvider';
+import toast from 'react-hot-toast';
+
+const QUIZ_SIZES = [10, 20, 50];
+
+const SOURCE_LABELS: Record<QuizSource, string> = {
+  topic: 'By topic',
+  years: 'By year range',
+  predicted: 'Top predicted',
+};
+
+const CONFIDENCE_OPTIONS: { value: Confidence; label: string; className: string }[] = [
+  { value: 'unknown', label: "Don't know", className: 'bg-red-600 hover:bg-red-700' },
+  { value: 'shaky', label: 'Shaky', className: 'bg-yellow-500 hover:bg-yellow-600' },
+  { value: 'confident', label: 'Confident', className: 'bg-green-600 hover:bg-green-700' },
+];
+
+const CONFIDENCE_BADGES: Record<Confidence, string> = {
+  unknown: 'bg-red-100 text-red-800',
+  shaky: 'bg-yellow-100 text-yellow-800',
+  confident: 'bg-green-100 text-green-800',
+};
+
+interface PracticeQuizProps {
+  userId: string;
+}
+
+export default function PracticeQuiz({ userId }: PracticeQuizProps) {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [log, setLog] = useState<PracticeLog>({});
+  const [source, setSource] = useState<QuizSource>('topic');
+  const [topic, setTopic] = useState('');
+  const [fromYear, setFromYear] = useState<number>(0);
+  const [toYear, setToYear] = useState<number>(0);
+  const [quizSize, setQuizSize] = useState<number>(QUIZ_SIZES[0]);
+  const [building, setBuilding] = useState(false);
+  const [quiz, setQuiz] = useState<Question[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [note, setNote] = useState('');
+  const [results, setResults] = useState<Record<string, Confidence>>({});
+  const getSignal = useAbortOnUnmount();
+  const { subject } = useSubject();
+
+  const topics = Array.from(new Set(questions.map(q => q.topic || 'General'))).sort();
+  const years = questions.map(q => q.year).filter((year): year is number => year !== undefined);
+  const minYear = years.length > 0 ? Math.min(...years) : 0;
+  const maxYear = years.length > 0 ? Math.max(...years) : 0;
+
+  useEffect(() => {
+    setLog(loadPracticeLog(userId));
+    fetchQuestions();
+  }, [userId]);
+
+  const fetchQuestions = async () => {
+    try {
+      setLoading(true);
+      await staleWhileRevalidate(
+        scopedCacheKey('questions', subject),
+        () => apiClient.getQuestions(subject ?? undefined, undefined, 1000, { signal: getSignal() }),
+        (data) => {
+          setQuestions(data);
+          setLoading(false);
+        }
+      );
+    } catch (error) {
+      console.error('Practice questions error:', error);
+      showErrorToast(error, 'Failed to load questions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Defaults are filled in once the questions arrive
+  useEffect(() => {
+    if (!topic && topics.length > 0) setTopic(topics[0]);
+    if (!fromYear && minYear) setFromYear(minYear);
+    if (!toYear && maxYear) setToYear(maxYear);
+  }, [questions]);
+
+  const startQuiz = (pool: Question[]) => {
+    const ordered = orderForPractice(pool, log);
+    if (ordered.length === 0) {
+      toast.error('No questions match this selection');
+      return;
+    }
+    setQuiz(ordered.slice(0, quizSize));
+    setPosition(0);
+    setResults({});
+    setNote(log[getQuestionKey(ordered[0])]?.note || '');
+  };
+
+  const handleStart = async () => {
+    if (source === 'topic') {
+      startQuiz(filterByTopic(questions, topic));
+      return;
+    }
+    if (source === 'years') {
+      startQuiz(filterByYears(questions, Math.min(fromYear, toYear), Math.max(fromYear, toYear)));
+      return;
+    }
+
+    try {
+      setBuilding(true);
+      startQuiz(await apiClient.predictQuestions(subject ?? undefined, quizSize));
+    } catch (error) {
+      console.error('Prediction error:', error);
+      showErrorToast(error, 'Failed to load predicted questions');
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const handleMark = (confidence: Confidence) => {
+    if (!quiz) return;
+    const question = quiz[position];
+    setLog(recordPracticeMark(userId, question, confidence, note));
+    // Questions practised under "all subjects" still carry the subject of their paper
+    recordReview(userId, question, confidence, question.subject ?? subject ?? undefined);
+    setResults(prev => ({ ...prev, [getQuestionKey(question)]: confidence }));
+
+    const next = quiz[position + 1];
+    setPosition(position + 1);
+    setNote(next ? log[getQuestionKey(next)]?.note || '' : '');
+  };
+
+  const handleRetryWeak = () => {
+    if (!quiz) return;
+    startQuiz(quiz.filter(question => results[getQuestionKey(question)] !== 'confident'));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (quiz && position < quiz.length) {
+    const question = quiz[position];
+    const previous = log[getQuestionKey(question)];
+
+    return (
+      <div className="max-w-3xl mx-auto bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-sm text-gray-500">
+            Question {position + 1} of {quiz.length}
+          </span>
+          <button
+            onClick={() => setQuiz(null)}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            End quiz
+          </button>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+          <div
+            className="bg-primary-600 h-2 rounded-full transition-all"
+            style={{ width: `${(position / quiz.length) * 100}%` }}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded text-xs font-medium">
+            {question.topic || 'General'}
+          </span>
+          {question.year && (
+            <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs font-medium">
+              {question.year}
+            </span>
+          )}
+          {previous && (
+            <span className={`px-2 py-1 rounded text-xs font-medium ${CONFIDENCE_BADGES[previous.confidence]}`}>
+              Last time: {previous.confidence}
+            </span>
+          )}
+        </div>
+        <p className="text-lg text-gray-900 leading-relaxed mb-6">{question.text}</p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Answer note (optional)
+        </label>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={3}
+          placeholder="Key points, formulas or where to look it up..."
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent mb-6"
+        />
+
+        <div className="grid grid-cols-3 gap-3">
+          {CONFIDENCE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleMark(option.value)}
+              className={`px-4 py-3 text-white font-medium rounded-lg transition-colors ${option.className}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (quiz) {
+    const marked = Object.values(results);
+    const weak = marked.filter(confidence => confidence !== 'confident').length;
+
+    return (
+      <div className="max-w-3xl mx-auto bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Quiz complete</h2>
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          {CONFIDENCE_OPTIONS.map(option => (
+            <div key={option.value} className={`p-4 rounded-lg text-center ${CONFIDENCE_BADGES[option.value]}`}>
+              <p className="text-2xl font-bold">{marked.filter(c => c === option.value).length}</p>
+              <p className="text-sm">{option.label}</p>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          {weak > 0 && (
+            <button
+              onClick={handleRetryWeak}
+              className="flex-1 px-6 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              Practise the {weak} weak question(s) again
+            </button>
+          )}
+          <button
+            onClick={() => setQuiz(null)}
+            className="flex-1 px-6 py-3 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            New quiz
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const counts = countByConfidence(log, questions);
+
+  return (
+    <div className="max-w-3xl mx-auto bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Practice</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Quiz yourself on past and predicted questions. Questions you marked as shaky or unknown come up first.
+      </p>
+
+      {questions.length > 0 && (
+        <div className="grid grid-cols-4 gap-3 mb-6 text-center">
+          <StatTile label="Confident" value={counts.confident} className={CONFIDENCE_BADGES.confident} />
+          <StatTile label="Shaky" value={counts.shaky} className={CONFIDENCE_BADGES.shaky} />
+          <StatTile label="Don't know" value={counts.unknown} className={CONFIDENCE_BADGES.unknown} />
+          <StatTile label="Not practised" value={counts.unmarked} className="bg-gray-100 text-gray-700" />
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(SOURCE_LABELS) as QuizSource[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setSource(option)}
+            className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+              source === option
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {SOURCE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {source !== 'predicted' && questions.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          No questions available yet. Upload exam papers to start practising.
+        </p>
+      ) : (
+        <div className="space-y-4 mb-6">
+          {source === 'topic' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Topic</label>
+              <select
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {topics.map(t => (
+                  <option key={t} value={t}>{t}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {source === 'years' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                <input
+                  type="number"
+                  value={fromYear || ''}
+                  min={minYear}
+                  max={maxYear}
+                  onChange={(e) => setFromYear(parseInt(e.target.value))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+                <input
+                  type="number"
+                  value={toYear || ''}
+                  min={minYear}
+                  max={maxYear}
+                  onChange={(e) => setToYear(parseInt(e.target.value))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Questions per quiz</label>
+            <select
+              value={quizSize}
+              onChange={(e) => setQuizSize(parseInt(e.target.value))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              {QUIZ_SIZES.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={handleStart}
+        disabled={building || (source !== 'predicted' && questions.length === 0)}
+        className="w-full px-6 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {building ? 'Loading predictions...' : 'Start quiz'}
+      </button>
+    </div>
+  );
+}
+
+function StatTile({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <div className={`p-3 rounded-lg ${className}`}>
+      <p className="text-xl font-bold">{value}</p>
+      <p className="text-xs">{label}</p>
+    </div>
+  );
+}
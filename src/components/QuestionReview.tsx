@@ -0,0 +1,312 @@
+/**
+ * Question Review Component - correct extracted questions before they are analysed
+ */
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { TrashIcon, ScissorsIcon, ArrowsPointingInIcon } from '@heroicons/react/24/outline';
+import { apiClient, QueuedMutationError } from '@/lib/api';
+import { showErrorToast } from '@/lib/errors';
+import { PaperDetail, ReviewedQuestion } from '@/types';
+import toast from 'react-hot-toast';
+
+interface QuestionReviewProps {
+  subject: string;
+  papers: PaperDetail[];
+  onDone: () => void;
+}
+
+interface DraftQuestion extends ReviewedQuestion {
+  key: string;
+  paper_id: string;
+  importance_score?: number;
+}
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+let nextDraftKey = 0;
+const newDraftKey = () => `draft-${nextDraftKey++}`;
+
+const toDrafts = (papers: PaperDetail[]): DraftQuestion[] =>
+  papers.flatMap(paper =>
+    paper.questions.map(question => ({
+      key: newDraftKey(),
+      paper_id: paper.id,
+      id: question.id,
+      text: question.text,
+      topic: question.topic,
+      difficulty: question.difficulty,
+      importance_score: question.importance_score,
+    }))
+  );
+
+export default function QuestionReview({ subject, papers, onDone }: QuestionReviewProps) {
+  const [drafts, setDrafts] = useState<DraftQuestion[]>(() => toDrafts(papers));
+  // Only papers whose questions were touched are sent back
+  const [changedPapers, setChangedPapers] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const caretRef = useRef<Record<string, number>>({});
+
+  const knownTopics = Array.from(
+    new Set([
+      ...papers.flatMap(paper => paper.topics_identified),
+      ...drafts.map(draft => draft.topic).filter((topic): topic is string => !!topic),
+    ])
+  ).sort();
+
+  const markChanged = (paperId: string) => {
+    setChangedPapers(prev => new Set(prev).add(paperId));
+  };
+
+  const updateDraft = (draft: DraftQuestion, changes: Partial<DraftQuestion>) => {
+    setDrafts(prev => prev.map(d => (d.key === draft.key ? { ...d, ...changes } : d)));
+    markChanged(draft.paper_id);
+  };
+
+  const deleteDraft = (draft: DraftQuestion) => {
+    setDrafts(prev => prev.filter(d => d.key !== draft.key));
+    markChanged(draft.paper_id);
+  };
+
+  // The merged question keeps the first one's id, topic and difficulty
+  const mergeWithNext = (draft: DraftQuestion, next: DraftQuestion) => {
+    setDrafts(prev =>
+      prev
+        .filter(d => d.key !== next.key)
+        .map(d => (d.key === draft.key ? { ...d, text: `${d.text.trim()} ${next.text.trim()}` } : d))
+    );
+    markChanged(draft.paper_id);
+  };
+
+  const splitAtCursor = (draft: DraftQuestion) => {
+    const caret = caretRef.current[draft.key];
+    const first = caret !== undefined ? draft.text.slice(0, caret).trim() : '';
+    const second = caret !== undefined ? draft.text.slice(caret).trim() : '';
+    if (!first || !second) {
+      toast.error('Place the cursor where the question should be split');
+      return;
+    }
+
+    const splitOff: DraftQuestion = {
+      key: newDraftKey(),
+      paper_id: draft.paper_id,
+      text: second,
+      topic: draft.topic,
+      difficulty: draft.difficulty,
+    };
+    setDrafts(prev =>
+      prev.flatMap(d => (d.key === draft.key ? [{ ...d, text: first }, splitOff] : [d]))
+    );
+    delete caretRef.current[draft.key];
+    markChanged(draft.paper_id);
+  };
+
+  const handleSave = async () => {
+    if (drafts.some(draft => !draft.text.trim())) {
+      toast.error('Delete empty questions or fill in their text');
+      return;
+    }
+    if (changedPapers.size === 0) {
+      onDone();
+      return;
+    }
+
+    try {
+      setSaving(true);
+      toast.loading('Saving corrections...', { id: 'review' });
+
+      let queued = 0;
+      for (const paperId of Array.from(changedPapers)) {
+        const questions: ReviewedQuestion[] = drafts
+          .filter(draft => draft.paper_id === paperId)
+          .map(({ id, text, topic, difficulty }) => ({
+            id,
+            text: text.trim(),
+            topic: topic?.trim() || undefined,
+            difficulty: difficulty || undefined,
+          }));
+        try {
+          await apiClient.updatePaperQuestions(paperId, questions);
+        } catch (error) {
+          if (!(error instanceof QueuedMutationError)) throw error;
+          queued += 1;
+        }
+        // A retry after a later paper fails should not resend this one
+        setChangedPapers(prev => {
+          const remaining = new Set(prev);
+          remaining.delete(paperId);
+          return remaining;
+        });
+      }
+
+      toast.success(
+        queued > 0
+          ? 'You are offline. Corrections will be sent when the backend is reachable.'
+          : 'Corrections saved',
+        { id: 'review' }
+      );
+      onDone();
+    } catch (error) {
+      console.error('Error saving corrections:', error);
+      showErrorToast(error, 'Failed to save corrections', { id: 'review' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-900">
+          📋 Review Extracted Questions for {subject}
+        </h3>
+        <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-semibold">
+          {drafts.length} Questions
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Fix any extraction mistakes before the questions are used for analysis and predictions.
+      </p>
+
+      <datalist id="review-topics">
+        {knownTopics.map(topic => (
+          <option key={topic} value={topic} />
+        ))}
+      </datalist>
+
+      <div className="space-y-6 max-h-[32rem] overflow-y-auto">
+        {papers.map(paper => {
+          const paperDrafts = drafts.filter(draft => draft.paper_id === paper.id);
+          return (
+            <div key={paper.id}>
+              {papers.length > 1 && (
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                  {paper.filename} ({paperDrafts.length})
+                </h4>
+              )}
+              {paperDrafts.length === 0 ? (
+                <p className="text-sm text-gray-500">No questions left for this paper.</p>
+              ) : (
+                <div className="space-y-3">
+                  {paperDrafts.map((draft, index) => (
+                    <DraftRow
+                      key={draft.key}
+                      draft={draft}
+                      index={index}
+                      next={paperDrafts[index + 1]}
+                      disabled={saving}
+                      onChange={changes => updateDraft(draft, changes)}
+                      onCaret={caret => { caretRef.current[draft.key] = caret; }}
+                      onSplit={() => splitAtCursor(draft)}
+                      onMerge={next => mergeWithNext(draft, next)}
+                      onDelete={() => deleteDraft(draft)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-200 flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white font-semibold py-3 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : changedPapers.size > 0 ? '✓ Save Corrections & Analyse' : '✓ Looks Good - Analyse'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface DraftRowProps {
+  draft: DraftQuestion;
+  index: number;
+  next?: DraftQuestion;
+  disabled: boolean;
+  onChange: (changes: Partial<DraftQuestion>) => void;
+  onCaret: (caret: number) => void;
+  onSplit: () => void;
+  onMerge: (next: DraftQuestion) => void;
+  onDelete: () => void;
+}
+
+function DraftRow({ draft, index, next, disabled, onChange, onCaret, onSplit, onMerge, onDelete }: DraftRowProps) {
+  return (
+    <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-4 rounded-lg border border-blue-200">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="bg-blue-600 text-white px-2 py-1 rounded text-xs font-bold">
+          Q{index + 1}
+        </span>
+        <input
+          type="text"
+          list="review-topics"
+          value={draft.topic || ''}
+          onChange={(e) => onChange({ topic: e.target.value })}
+          placeholder="Topic"
+          className="px-2 py-1 border border-gray-300 rounded text-xs w-40"
+          disabled={disabled}
+        />
+        <select
+          value={draft.difficulty || ''}
+          onChange={(e) => onChange({ difficulty: e.target.value || undefined })}
+          className="px-2 py-1 border border-gray-300 rounded text-xs"
+          disabled={disabled}
+        >
+          <option value="">Difficulty</option>
+          {DIFFICULTIES.map(level => (
+            <option key={level} value={level}>{level}</option>
+          ))}
+        </select>
+        {draft.importance_score !== undefined && (
+          <span className="ml-auto text-xs text-gray-500">
+            Importance {(draft.importance_score * 100).toFixed(0)}%
+          </span>
+        )}
+      </div>
+
+      <textarea
+        value={draft.text}
+        onChange={(e) => onChange({ text: e.target.value })}
+        onSelect={(e) => onCaret(e.currentTarget.selectionStart)}
+        rows={Math.min(6, Math.max(2, Math.ceil(draft.text.length / 90)))}
+        className="w-full px-3 py-2 border border-gray-300 rounded text-sm text-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        disabled={disabled}
+      />
+
+      <div className="flex gap-4 mt-2 text-xs font-medium">
+        <button
+          onClick={onSplit}
+          disabled={disabled}
+          className="flex items-center gap-1 text-gray-600 hover:text-gray-800"
+          title="Split into two questions at the cursor"
+        >
+          <ScissorsIcon className="w-4 h-4" />
+          Split at cursor
+        </button>
+        {next && (
+          <button
+            onClick={() => onMerge(next)}
+            disabled={disabled}
+            className="flex items-center gap-1 text-gray-600 hover:text-gray-800"
+            title="Join with the question below"
+          >
+            <ArrowsPointingInIcon className="w-4 h-4" />
+            Merge with next
+          </button>
+        )}
+        <button
+          onClick={onDelete}
+          disabled={disabled}
+          className="flex items-center gap-1 text-red-600 hover:text-red-700 ml-auto"
+        >
+          <TrashIcon className="w-4 h-4" />
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
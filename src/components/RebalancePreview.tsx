@@ -0,0 +1,68 @@
+/**
+ * Rebalance Preview Component - review moved sessions before saving a rebalanced schedule
+ */
+'use client';
+
+import React from 'react';
+import { ArrowRightIcon } from '@heroicons/react/24/outline';
+import { formatDayLabel } from '@/lib/schedule';
+import { RebalanceResult } from '@/lib/rebalance';
+
+interface RebalancePreviewProps {
+  result: RebalanceResult;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+export default function RebalancePreview({ result, onSave, onCancel }: RebalancePreviewProps) {
+  const { schedule, changes } = result;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-8 border-2 border-primary-200">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Rebalance Preview</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Completed sessions stay put. {changes.length} session(s) will be moved, most important first.
+      </p>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">Nothing needs to move — your schedule is on track.</p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto mb-4">
+          {changes.map((change, index) => (
+            <div key={index} className="flex items-center gap-4 bg-gray-50 border border-gray-200 rounded-lg px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-800">{change.session.topic}</p>
+                <p className="text-xs text-gray-500">
+                  {change.session.duration_minutes} minutes • {(change.session.importance_score * 100).toFixed(0)}% importance
+                </p>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-gray-600">
+                <span>
+                  {change.fromDay ? formatDayLabel(schedule, change.fromDay) : 'Rest of partial session'}
+                </span>
+                <ArrowRightIcon className="w-4 h-4 text-primary-600" />
+                <span className="font-medium text-gray-800">{formatDayLabel(schedule, change.toDay)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onSave}
+          disabled={changes.length === 0}
+          className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          Save rebalanced schedule
+        </button>
+      </div>
+    </div>
+  );
+}
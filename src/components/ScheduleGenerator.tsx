@@ -3,19 +3,138 @@
  */
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { apiClient } from '@/lib/api';
-import { StudySchedule } from '@/types';
+import { showErrorToast } from '@/lib/errors';
+import { getCached, setCached } from '@/lib/offlineStore';
+import { SavedSchedule, SessionStatus, StudyPlan, StudySchedule, StudySession } from '@/types';
+import TopicPicker from '@/components/TopicPicker';
+import ScheduleHistory from '@/components/ScheduleHistory';
+import { useSubject } from '@/components/SubjectProvider';
+import ScheduleProgress from '@/components/ScheduleProgress';
+import RebalancePreview from '@/components/RebalancePreview';
+import { RebalanceResult, rebalanceSchedule, saveRebalancedSchedule, withSavedRebalance } from '@/lib/rebalance';
+import {
+  clearSessionProgress,
+  getSessionKey,
+  loadProgress,
+  ProgressLog,
+  recordSessionProgress,
+  saveProgress,
+} from '@/lib/progress';
+import { formatDate, formatDayLabel, getDaysUntil, toDateInputValue } from '@/lib/schedule';
+import { buildIcs, downloadIcs } from '@/lib/calendarExport';
+import { forecastReviewMinutes, getUnassignedReviews, loadReviewLog, ReviewLog } from '@/lib/spacedRepetition';
+import {
+  allocateHours,
+  DEFAULT_SUBJECT_WEIGHT,
+  loadSubjectSettings,
+  mergeSubjectSchedules,
+  saveSubjectSettings,
+  scopedCacheKey,
+  SubjectSettings,
+} from '@/lib/subjects';
 import toast from 'react-hot-toast';
 import jsPDF from 'jspdf';
-import { CalendarIcon, ClockIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { differenceInCalendarDays, isAfter, parseISO } from 'date-fns';
+import {
+  ArrowPathIcon,
+  CalendarDaysIcon,
+  CalendarIcon,
+  ClockIcon,
+  DocumentArrowDownIcon,
+  PlayIcon,
+} from '@heroicons/react/24/outline';
 
-export default function ScheduleGenerator() {
+const CURRENT_SCHEDULE_KEY = 'current-schedule';
+// Review load is projected this far ahead when no exam date is set
+const REVIEW_FORECAST_DAYS = 14;
+// Hour at which exported calendar events start each day
+const DEFAULT_CALENDAR_START_HOUR = 9;
+
+const WEIGHT_LABELS: Record<number, string> = {
+  1: 'Very low',
+  2: 'Low',
+  3: 'Normal',
+  4: 'High',
+  5: 'Very high',
+};
+
+interface ScheduleGeneratorProps {
+  userId: string;
+  onStartStudying?: (plan: StudyPlan) => void;
+}
+
+export default function ScheduleGenerator({ userId, onStartStudying }: ScheduleGeneratorProps) {
   const [availableHours, setAvailableHours] = useState<number>(40);
   const [studyDuration, setStudyDuration] = useState<number>(25);
   const [breakDuration, setBreakDuration] = useState<number>(5);
+  const [startDate, setStartDate] = useState<string>(toDateInputValue(new Date()));
+  const [examDate, setExamDate] = useState<string>('');
+  const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
   const [schedule, setSchedule] = useState<StudySchedule | null>(null);
   const [generating, setGenerating] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [progress, setProgress] = useState<ProgressLog>({});
+  const [rebalancePreview, setRebalancePreview] = useState<RebalanceResult | null>(null);
+  const [reviewLog, setReviewLog] = useState<ReviewLog>({});
+  const [reserveReviews, setReserveReviews] = useState(true);
+  const [calendarStartHour, setCalendarStartHour] = useState<number>(DEFAULT_CALENDAR_START_HOUR);
+  const [subjectSettings, setSubjectSettings] = useState<Record<string, SubjectSettings>>({});
+  const { subject, subjects } = useSubject();
+  const currentScheduleKey = scopedCacheKey(CURRENT_SCHEDULE_KEY, subject);
+  // With no subject open, one plan is built across every subject
+  const allSubjectsMode = subject === null && subjects.length > 1;
+
+  useEffect(() => {
+    setReviewLog(loadReviewLog(userId));
+    setSubjectSettings(loadSubjectSettings(userId));
+  }, [userId]);
+
+  // `unassignedShare` is the part of the subject-less reviews this plan takes on
+  const forecastReviews = (exam: string, reviewSubject: string | null, unassignedShare: number = 0): number[] => {
+    if (!startDate) return [];
+    const start = parseISO(startDate);
+    const days = exam && isAfter(parseISO(exam), start)
+      ? differenceInCalendarDays(parseISO(exam), start)
+      : REVIEW_FORECAST_DAYS;
+    const minutes = forecastReviewMinutes(reviewLog, start, days, reviewSubject);
+    if (unassignedShare <= 0) return minutes;
+    const unassigned = forecastReviewMinutes(getUnassignedReviews(reviewLog), start, days);
+    return minutes.map((value, day) => Math.round(value + unassigned[day] * unassignedShare));
+  };
+  const reviewForecast = forecastReviews(allSubjectsMode ? '' : examDate, subject);
+  const totalReviewMinutes = reviewForecast.reduce((sum, minutes) => sum + minutes, 0);
+
+  const getSubjectSettings = (name: string): SubjectSettings =>
+    subjectSettings[name] || { weight: DEFAULT_SUBJECT_WEIGHT };
+
+  const updateSubjectSettings = (name: string, changes: Partial<SubjectSettings>) => {
+    const next = { ...subjectSettings, [name]: { ...getSubjectSettings(name), ...changes } };
+    setSubjectSettings(next);
+    saveSubjectSettings(userId, next);
+  };
+
+  const allocations = allSubjectsMode && startDate
+    ? allocateHours(
+        availableHours || 0,
+        subjects.map(name => ({ subject: name, ...getSubjectSettings(name) })),
+        parseISO(startDate)
+      )
+    : [];
+
+  // Restore the last opened schedule, which would otherwise be lost on remount
+  useEffect(() => {
+    getCached<StudySchedule>(currentScheduleKey).then(cached => {
+      if (cached) setSchedule(prev => prev || cached.value);
+    });
+  }, []);
+
+  useEffect(() => {
+    setProgress(schedule ? loadProgress(schedule) : {});
+    setRebalancePreview(null);
+    if (schedule) setCached(currentScheduleKey, schedule);
+  }, [schedule]);
 
   const handleGenerate = async () => {
     if (availableHours <= 0) {
@@ -23,27 +142,158 @@ export default function ScheduleGenerator() {
       return;
     }
 
+    if (!startDate) {
+      toast.error('Please choose a start date');
+      return;
+    }
+
+    if (allSubjectsMode) {
+      await generateAllSubjects();
+      return;
+    }
+
+    if (examDate && !isAfter(parseISO(examDate), parseISO(startDate))) {
+      toast.error('Exam date must be after the start date');
+      return;
+    }
+
     try {
       setGenerating(true);
       toast.loading('Generating personalized schedule...', { id: 'schedule' });
 
-      const response = await apiClient.generateSchedule({
+      const generated = await apiClient.generateSchedule({
         available_hours: availableHours,
         study_duration: studyDuration,
         break_duration: breakDuration,
+        start_date: startDate,
+        exam_date: examDate || undefined,
+        topics_to_include: selectedTopics.length > 0 ? selectedTopics : undefined,
+        subject: subject ?? undefined,
+        user_id: userId,
+        review_minutes_per_day: reserveReviews && totalReviewMinutes > 0 ? reviewForecast : undefined,
       });
 
-      setSchedule(response.data);
+      setSchedule({
+        ...generated,
+        start_date: generated.start_date || startDate,
+        exam_date: generated.exam_date || examDate || undefined,
+        break_duration: generated.break_duration ?? breakDuration,
+      });
+      setHistoryKey(prev => prev + 1);
       toast.success('Schedule generated successfully!', { id: 'schedule' });
-    } catch (error: any) {
+    } catch (error) {
+      console.error('Schedule generation error:', error);
+      showErrorToast(error, 'Failed to generate schedule', { id: 'schedule' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // One backend schedule per subject with its share of the hours, merged into a single plan
+  const generateAllSubjects = async () => {
+    const early = allocations.find(a => a.exam_date && !isAfter(parseISO(a.exam_date), parseISO(startDate)));
+    if (early) {
+      toast.error(`The ${early.subject} exam date must be after the start date`);
+      return;
+    }
+
+    try {
+      setGenerating(true);
+      const planned = allocations.filter(a => a.hours > 0);
+      const plannedHours = planned.reduce((sum, a) => sum + a.hours, 0);
+      const parts: { subject: string; schedule: StudySchedule }[] = [];
+      for (const allocation of planned) {
+        toast.loading(`Planning ${allocation.subject} (${parts.length + 1}/${planned.length})...`, { id: 'schedule' });
+        // Reviews without a subject are split across the plans in proportion to their hours
+        const reviews = reserveReviews
+          ? forecastReviews(allocation.exam_date || '', allocation.subject, allocation.hours / plannedHours)
+          : [];
+        const generated = await apiClient.generateSchedule({
+          available_hours: allocation.hours,
+          study_duration: studyDuration,
+          break_duration: breakDuration,
+          start_date: startDate,
+          exam_date: allocation.exam_date || undefined,
+          subject: allocation.subject,
+          user_id: userId,
+          review_minutes_per_day: reviews.some(minutes => minutes > 0) ? reviews : undefined,
+          save: false,
+        });
+        parts.push({ subject: allocation.subject, schedule: generated });
+      }
+
+      // Only the merged plan goes into the history, so it can be reopened and tracked as one
+      const merged = { ...mergeSubjectSchedules(parts, startDate), break_duration: breakDuration };
+      try {
+        setSchedule(await apiClient.saveSchedule(merged, {
+          user_id: userId,
+          available_hours: availableHours,
+          study_duration: studyDuration,
+          break_duration: breakDuration,
+          start_date: startDate,
+          exam_date: merged.exam_date,
+        }));
+        setHistoryKey(prev => prev + 1);
+        toast.success(`Schedule generated across ${parts.length} subjects!`, { id: 'schedule' });
+      } catch (error) {
+        // The plan is still usable; it just will not appear in the history
+        console.error('Schedule save error:', error);
+        setSchedule(merged);
+        toast.error('Schedule generated, but it could not be saved to your history', { id: 'schedule' });
+      }
+    } catch (error) {
       console.error('Schedule generation error:', error);
-      const message = error.response?.data?.detail || 'Failed to generate schedule';
-      toast.error(message, { id: 'schedule' });
+      showErrorToast(error, 'Failed to generate schedule', { id: 'schedule' });
     } finally {
       setGenerating(false);
     }
   };
 
+  const handleOpenSaved = (saved: SavedSchedule) => {
+    const { parameters } = saved;
+    setAvailableHours(parameters.available_hours);
+    if (parameters.study_duration) setStudyDuration(parameters.study_duration);
+    if (parameters.break_duration) setBreakDuration(parameters.break_duration);
+    if (parameters.start_date) setStartDate(parameters.start_date.slice(0, 10));
+    setExamDate(parameters.exam_date ? parameters.exam_date.slice(0, 10) : '');
+    setSelectedTopics(parameters.topics_to_include || []);
+    setReserveReviews(!!parameters.review_minutes_per_day);
+    setSchedule(withSavedRebalance(saved));
+    toast.success('Schedule reopened');
+  };
+
+  const handleMarkSession = (session: StudySession, status: SessionStatus | '') => {
+    if (!schedule) return;
+    setProgress(
+      status
+        ? recordSessionProgress(schedule, session, status, status === 'completed' ? session.duration_minutes : 0)
+        : clearSessionProgress(schedule, session)
+    );
+  };
+
+  const handleRebalance = () => {
+    if (!schedule) return;
+    const result = rebalanceSchedule(schedule, progress);
+    if (!result) {
+      toast.error('No study days left before the exam to rebalance into');
+      return;
+    }
+    setRebalancePreview(result);
+  };
+
+  const handleSaveRebalance = async () => {
+    if (!rebalancePreview) return;
+    const rebalanced = rebalancePreview.schedule;
+    saveProgress(rebalanced, rebalancePreview.progress);
+    setSchedule(rebalanced);
+    if (await saveRebalancedSchedule(rebalanced)) {
+      setHistoryKey(prev => prev + 1);
+      toast.success('Schedule rebalanced');
+    } else {
+      toast.success('Schedule rebalanced on this device');
+    }
+  };
+
   const downloadPDF = () => {
     if (!schedule) return;
 
@@ -62,6 +312,11 @@ export default function ScheduleGenerator() {
     doc.setFont('helvetica', 'normal');
     doc.text(`Total Hours: ${schedule.total_hours} | Sessions: ${schedule.total_sessions}`, pageWidth / 2, yPosition, { align: 'center' });
     
+    if (schedule.exam_date) {
+      yPosition += 7;
+      doc.text(`Exam: ${formatDate(schedule.exam_date)}`, pageWidth / 2, yPosition, { align: 'center' });
+    }
+
     yPosition += 15;
 
     // Topic Distribution
@@ -89,7 +344,7 @@ export default function ScheduleGenerator() {
     doc.text('Study Sessions:', 20, yPosition);
     yPosition += 10;
 
-    let currentDay = 1;
+    let currentDay = 0;
     schedule.sessions.forEach((session, index) => {
       if (session.day !== currentDay) {
         currentDay = session.day;
@@ -100,7 +355,7 @@ export default function ScheduleGenerator() {
         }
         doc.setFontSize(12);
         doc.setFont('helvetica', 'bold');
-        doc.text(`Day ${currentDay}`, 20, yPosition);
+        doc.text(formatDayLabel(schedule, currentDay), 20, yPosition);
         yPosition += 8;
       }
 
@@ -123,6 +378,18 @@ export default function ScheduleGenerator() {
     toast.success('PDF downloaded successfully!');
   };
 
+  const downloadCalendar = () => {
+    if (!schedule) return;
+
+    const ics = buildIcs(schedule, { startHour: calendarStartHour });
+    if (!ics) {
+      toast.error('Calendar export needs a schedule with a start date');
+      return;
+    }
+    downloadIcs(ics, 'study-schedule.ics');
+    toast.success('Calendar file downloaded!');
+  };
+
   return (
     <div className="max-w-6xl mx-auto p-6">
       <div className="mb-8">
@@ -179,8 +446,104 @@ export default function ScheduleGenerator() {
             />
             <p className="text-xs text-gray-500 mt-1">Rest between sessions</p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Start Date
+            </label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">First day of studying</p>
+          </div>
+
+          {!allSubjectsMode && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Exam Date
+              </label>
+              <input
+                type="date"
+                value={examDate}
+                onChange={(e) => setExamDate(e.target.value)}
+                min={startDate}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Optional, must be after the start date</p>
+            </div>
+          )}
         </div>
 
+        {allSubjectsMode ? (
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Subjects
+            </label>
+            <p className="text-xs text-gray-500 mb-3">
+              Hours are split by weight, with more time going to subjects whose exams come sooner.
+            </p>
+            <div className="space-y-2">
+              {allocations.map(allocation => (
+                <div
+                  key={allocation.subject}
+                  className="grid grid-cols-1 md:grid-cols-4 gap-3 items-center p-3 rounded-lg border border-gray-200"
+                >
+                  <span className="font-medium text-gray-800">{allocation.subject}</span>
+                  <input
+                    type="date"
+                    value={allocation.exam_date || ''}
+                    onChange={(e) => updateSubjectSettings(allocation.subject, { exam_date: e.target.value || undefined })}
+                    min={startDate}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    title="Exam date"
+                  />
+                  <select
+                    value={allocation.weight}
+                    onChange={(e) => updateSubjectSettings(allocation.subject, { weight: parseInt(e.target.value) })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    title="Weight"
+                  >
+                    {Object.keys(WEIGHT_LABELS).map(Number).map(weight => (
+                      <option key={weight} value={weight}>{WEIGHT_LABELS[weight]} weight</option>
+                    ))}
+                  </select>
+                  <span className="text-sm text-gray-600 md:text-right">≈ {allocation.hours} hours</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Topics to Include
+            </label>
+            <TopicPicker selected={selectedTopics} onChange={setSelectedTopics} />
+          </div>
+        )}
+
+        {totalReviewMinutes > 0 && (
+          <label className="mt-6 flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={reserveReviews}
+              onChange={(e) => setReserveReviews(e.target.checked)}
+              className="mt-1 h-4 w-4 text-primary-600 rounded"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-700">
+                Reserve time for spaced-repetition reviews
+              </span>
+              <span className="block text-xs text-gray-500">
+                About {Math.round(totalReviewMinutes / 60 * 10) / 10} hours of reviews over the plan,
+                {' '}{reviewForecast[0]} min on the first day. This time is set aside before topics are scheduled.
+              </span>
+            </span>
+          </label>
+        )}
+
         <button
           onClick={handleGenerate}
           disabled={generating}
@@ -190,6 +553,8 @@ export default function ScheduleGenerator() {
         </button>
       </div>
 
+      <ScheduleHistory userId={userId} refreshKey={historyKey} onOpen={handleOpenSaved} />
+
       {/* Schedule Display */}
       {schedule && (
         <>
@@ -197,16 +562,50 @@ export default function ScheduleGenerator() {
           <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-gray-800">Schedule Summary</h3>
-              <button
-                onClick={downloadPDF}
-                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-              >
-                <DocumentArrowDownIcon className="w-5 h-5" />
-                Download PDF
-              </button>
+              <div className="flex gap-2">
+                {schedule.start_date && (
+                  <button
+                    onClick={handleRebalance}
+                    className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                  >
+                    <ArrowPathIcon className="w-5 h-5" />
+                    Rebalance
+                  </button>
+                )}
+                <button
+                  onClick={downloadPDF}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <DocumentArrowDownIcon className="w-5 h-5" />
+                  Download PDF
+                </button>
+                {schedule.start_date && (
+                  <div className="flex items-center">
+                    <select
+                      value={calendarStartHour}
+                      onChange={(e) => setCalendarStartHour(parseInt(e.target.value))}
+                      title="Daily start time for calendar events"
+                      className="px-2 py-2 border border-gray-300 rounded-l-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>
+                          {hour.toString().padStart(2, '0')}:00
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={downloadCalendar}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-r-lg hover:bg-green-700 transition-colors"
+                    >
+                      <CalendarDaysIcon className="w-5 h-5" />
+                      Export .ics
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className={`grid grid-cols-1 gap-4 ${schedule.exam_date ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
               <div className="flex items-center gap-3 p-4 bg-blue-50 rounded-lg">
                 <ClockIcon className="w-8 h-8 text-blue-600" />
                 <div>
@@ -232,9 +631,23 @@ export default function ScheduleGenerator() {
                   <div className="text-sm text-gray-600">Topics</div>
                 </div>
               </div>
+
+              {schedule.exam_date && (
+                <ExamCountdown examDate={schedule.exam_date} />
+              )}
             </div>
           </div>
 
+          {rebalancePreview && (
+            <RebalancePreview
+              result={rebalancePreview}
+              onSave={handleSaveRebalance}
+              onCancel={() => setRebalancePreview(null)}
+            />
+          )}
+
+          <ScheduleProgress schedule={schedule} progress={progress} />
+
           {/* Topic Distribution */}
           <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
             <h3 className="text-lg font-semibold text-gray-800 mb-4">Time Allocation by Topic</h3>
@@ -265,31 +678,62 @@ export default function ScheduleGenerator() {
             <h3 className="text-lg font-semibold text-gray-800 mb-4">Study Sessions Timeline</h3>
             {Array.from(new Set(schedule.sessions.map(s => s.day))).map(day => (
               <div key={day} className="mb-6 last:mb-0">
-                <h4 className="text-md font-semibold text-gray-700 mb-3 flex items-center gap-2">
-                  <CalendarIcon className="w-5 h-5" />
-                  Day {day}
-                </h4>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-md font-semibold text-gray-700 flex items-center gap-2">
+                    <CalendarIcon className="w-5 h-5" />
+                    {formatDayLabel(schedule, day)}
+                  </h4>
+                  {onStartStudying && (
+                    <button
+                      onClick={() => onStartStudying({
+                        schedule,
+                        day,
+                        sessions: schedule.sessions.filter(s => s.day === day),
+                      })}
+                      className="flex items-center gap-1 px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                    >
+                      <PlayIcon className="w-4 h-4" />
+                      Start studying
+                    </button>
+                  )}
+                </div>
                 <div className="space-y-2 pl-7">
                   {schedule.sessions
                     .filter(s => s.day === day)
-                    .map((session, idx) => (
-                      <div
-                        key={idx}
-                        className="border-l-4 border-primary-500 bg-gray-50 p-3 rounded"
-                      >
-                        <div className="flex items-start justify-between">
-                          <div>
-                            <div className="font-medium text-gray-800">{session.topic}</div>
-                            <div className="text-sm text-gray-600 mt-1">
-                              {session.duration_minutes} minutes • {session.questions_to_cover.length} questions
+                    .map((session, idx) => {
+                      const entry = progress[getSessionKey(session)];
+                      return (
+                        <div
+                          key={idx}
+                          className={`border-l-4 bg-gray-50 p-3 rounded ${entry ? STATUS_STYLES[entry.status].border : 'border-primary-500'}`}
+                        >
+                          <div className="flex items-start justify-between">
+                            <div>
+                              <div className="font-medium text-gray-800">{session.topic}</div>
+                              <div className="text-sm text-gray-600 mt-1">
+                                {session.duration_minutes} minutes • {session.questions_to_cover.length} questions
+                                {entry && ` • ${entry.actual_minutes} min done`}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                                {(session.importance_score * 100).toFixed(0)}% importance
+                              </span>
+                              <select
+                                value={entry?.status || ''}
+                                onChange={(e) => handleMarkSession(session, e.target.value as SessionStatus | '')}
+                                className={`text-xs rounded px-2 py-1 border border-gray-200 ${entry ? STATUS_STYLES[entry.status].badge : 'bg-white text-gray-600'}`}
+                              >
+                                <option value="">Not started</option>
+                                <option value="completed">Completed</option>
+                                {entry?.status === 'partial' && <option value="partial">Partial</option>}
+                                <option value="skipped">Skipped</option>
+                              </select>
                             </div>
                           </div>
-                          <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
-                            {(session.importance_score * 100).toFixed(0)}% importance
-                          </span>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                 </div>
               </div>
             ))}
@@ -299,3 +743,30 @@ export default function ScheduleGenerator() {
     </div>
   );
 }
+
+const STATUS_STYLES: Record<SessionStatus, { border: string; badge: string }> = {
+  completed: { border: 'border-green-500', badge: 'bg-green-100 text-green-800' },
+  partial: { border: 'border-yellow-500', badge: 'bg-yellow-100 text-yellow-800' },
+  skipped: { border: 'border-gray-400', badge: 'bg-gray-200 text-gray-700' },
+};
+
+function ExamCountdown({ examDate }: { examDate: string }) {
+  const daysLeft = getDaysUntil(examDate);
+  const label = daysLeft > 1
+    ? `${daysLeft} days to exam`
+    : daysLeft === 1
+      ? '1 day to exam'
+      : daysLeft === 0
+        ? 'Exam is today'
+        : 'Exam has passed';
+
+  return (
+    <div className="flex items-center gap-3 p-4 bg-red-50 rounded-lg">
+      <div className="text-3xl">⏳</div>
+      <div>
+        <div className="text-2xl font-bold text-gray-900">{Math.max(daysLeft, 0)}</div>
+        <div className="text-sm text-gray-600">{label}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Schedule History Component - reopen and compare previously generated schedules
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { showErrorToast } from '@/lib/errors';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import { getScheduleKey } from '@/lib/progress';
+import { scopedCacheKey } from '@/lib/subjects';
+import { SavedSchedule } from '@/types';
+import { useSubject } from '@/components/SubjectProvider';
+
+interface ScheduleHistoryProps {
+  userId: string;
+  refreshKey?: number;
+  onOpen: (schedule: SavedSchedule) => void;
+}
+
+const formatCreatedAt = (createdAt?: string) =>
+  createdAt ? format(parseISO(createdAt), 'MMM d, yyyy HH:mm') : 'Unknown date';
+
+export default function ScheduleHistory({ userId, refreshKey, onOpen }: ScheduleHistoryProps) {
+  const [schedules, setSchedules] = useState<SavedSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const getSignal = useAbortOnUnmount();
+  const { subject } = useSubject();
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [userId, subject, refreshKey]);
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(true);
+      await staleWhileRevalidate(
+        scopedCacheKey(`schedules:${userId}`, subject),
+        () => apiClient.getSchedules(userId, subject ?? undefined, { signal: getSignal() }),
+        (data) => {
+          setSchedules([...data].sort((a, b) => (b.created_at || '').localeCompare(a.created_at || '')));
+          setLoading(false);
+        }
+      );
+    } catch (error) {
+      console.error('Schedule history error:', error);
+      showErrorToast(error, 'Failed to load schedule history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(c => c !== id);
+      // Keep the two most recent picks
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const compared = compareIds
+    .map(id => schedules.find(s => getScheduleKey(s) === id))
+    .filter((s): s is SavedSchedule => !!s);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Schedule History</h3>
+        {compareIds.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {compareIds.length}/2 selected for comparison
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading saved schedules...</p>
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved schedules yet. Generated schedules will appear here.</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {schedules.map(schedule => (
+            <div
+              key={getScheduleKey(schedule)}
+              className="flex items-center gap-4 bg-gray-50 border border-gray-200 rounded-lg px-4 py-3"
+            >
+              <input
+                type="checkbox"
+                checked={compareIds.includes(getScheduleKey(schedule))}
+                onChange={() => toggleCompare(getScheduleKey(schedule))}
+                className="h-4 w-4 text-primary-600 rounded"
+                title="Select for comparison"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-800">{formatCreatedAt(schedule.created_at)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {schedule.parameters.available_hours}h available
+                  {schedule.parameters.study_duration && ` • ${schedule.parameters.study_duration}/${schedule.parameters.break_duration ?? '-'} min sessions`}
+                  {schedule.parameters.exam_date && ` • exam ${schedule.parameters.exam_date}`}
+                  {` • ${schedule.parameters.topics_to_include?.length
+                    ? `${schedule.parameters.topics_to_include.length} chosen topics`
+                    : 'all topics'}`}
+                </p>
+              </div>
+              <div className="text-xs text-gray-500 text-right">
+                <div>{schedule.total_hours} hours</div>
+                <div>{schedule.total_sessions} sessions</div>
+              </div>
+              <button
+                onClick={() => onOpen(schedule)}
+                className="px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+              >
+                Open
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {compared.length === 2 && (
+        <ScheduleComparison left={compared[0]} right={compared[1]} />
+      )}
+    </div>
+  );
+}
+
+interface ScheduleComparisonProps {
+  left: SavedSchedule;
+  right: SavedSchedule;
+}
+
+function ScheduleComparison({ left, right }: ScheduleComparisonProps) {
+  const topics = Array.from(
+    new Set([...Object.keys(left.topic_distribution), ...Object.keys(right.topic_distribution)])
+  );
+  const rows = topics
+    .map(topic => {
+      const a = left.topic_distribution[topic] || 0;
+      const b = right.topic_distribution[topic] || 0;
+      return { topic, a, b, delta: b - a };
+    })
+    .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <h4 className="text-md font-semibold text-gray-700 mb-4 flex items-center gap-2">
+        <ArrowsRightLeftIcon className="w-5 h-5" />
+        Comparison
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <DeltaCard label="Total Hours" a={left.total_hours} b={right.total_hours} />
+        <DeltaCard label="Study Sessions" a={left.total_sessions} b={right.total_sessions} />
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-2 font-medium">Topic</th>
+            <th className="py-2 font-medium text-right">{formatCreatedAt(left.created_at)}</th>
+            <th className="py-2 font-medium text-right">{formatCreatedAt(right.created_at)}</th>
+            <th className="py-2 font-medium text-right">Δ hours</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.topic} className="border-b border-gray-100 last:border-0">
+              <td className="py-2 text-gray-700">{row.topic}</td>
+              <td className="py-2 text-right text-gray-600">{row.a}</td>
+              <td className="py-2 text-right text-gray-600">{row.b}</td>
+              <td className={`py-2 text-right font-medium ${deltaColor(row.delta)}`}>
+                {formatDelta(row.delta)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const formatDelta = (delta: number) =>
+  delta > 0 ? `+${Number(delta.toFixed(2))}` : `${Number(delta.toFixed(2))}`;
+
+const deltaColor = (delta: number) =>
+  delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-400';
+
+function DeltaCard({ label, a, b }: { label: string; a: number; b: number }) {
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="text-sm text-gray-600 mb-1">{label}</div>
+      <div className="flex items-baseline gap-2">
+        <span className="text-xl font-bold text-gray-900">{a}</span>
+        <span className="text-gray-400">→</span>
+        <span className="text-xl font-bold text-gray-900">{b}</span>
+        <span className={`text-sm font-medium ${deltaColor(b - a)}`}>({formatDelta(b - a)})</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Schedule Progress Component - plan adherence for a generated schedule
+ */
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { ProgressLog, summarizeProgress } from '@/lib/progress';
+import { StudySchedule } from '@/types';
+
+interface ScheduleProgressProps {
+  schedule: StudySchedule;
+  progress: ProgressLog;
+}
+
+export default function ScheduleProgress({ schedule, progress }: ScheduleProgressProps) {
+  const summary = summarizeProgress(schedule, progress);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">Progress</h3>
+
+      {/* Overall Progress */}
+      <div className="mb-2 flex items-center justify-between text-sm">
+        <span className="text-gray-700">
+          {summary.completed} completed • {summary.partial} partial • {summary.skipped} skipped
+        </span>
+        <span className="font-semibold text-gray-900">{summary.percentComplete.toFixed(0)}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-3 mb-6">
+        <div
+          className="bg-green-500 h-3 rounded-full transition-all duration-500"
+          style={{ width: `${Math.min(summary.percentComplete, 100)}%` }}
+        />
+      </div>
+
+      {/* Slip against the Exam Date */}
+      {summary.projectedFinish && (
+        <div
+          className={`p-4 rounded-lg mb-6 ${
+            summary.daysBeforeExam !== null && summary.daysBeforeExam < 0
+              ? 'bg-red-50 text-red-800'
+              : summary.slipDays > 0
+                ? 'bg-yellow-50 text-yellow-800'
+                : 'bg-green-50 text-green-800'
+          }`}
+        >
+          <p className="font-medium">
+            {summary.slipDays > 0
+              ? `${summary.slipDays} day(s) behind plan (${summary.overdueSessions} overdue session(s))`
+              : 'On track'}
+          </p>
+          <p className="text-sm mt-1">
+            Projected finish: {format(summary.projectedFinish, 'EEEE, MMM d, yyyy')}
+            {summary.daysBeforeExam !== null && (
+              summary.daysBeforeExam >= 0
+                ? ` • ${summary.daysBeforeExam} day(s) before the exam`
+                : ` • ${-summary.daysBeforeExam} day(s) after the exam`
+            )}
+          </p>
+        </div>
+      )}
+
+      {/* Planned vs Actual Hours */}
+      <h4 className="text-md font-semibold text-gray-700 mb-3">Planned vs. Actual Hours</h4>
+      <div className="space-y-3">
+        {summary.topics.map(topic => (
+          <div key={topic.topic}>
+            <div className="flex items-center justify-between mb-1 text-sm">
+              <span className="font-medium text-gray-700">{topic.topic}</span>
+              <span className="text-gray-500">
+                {topic.actual_hours.toFixed(1)} / {topic.planned_hours.toFixed(1)} hours
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-primary-600 h-2 rounded-full transition-all duration-500"
+                style={{ width: `${Math.min((topic.actual_hours / topic.planned_hours) * 100, 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
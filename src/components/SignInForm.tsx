@@ -0,0 +1,115 @@
+/**
+ * Sign In Form Component - sign in or create an account
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import { AuthError, getErrorMessage } from '@/lib/errors';
+import toast from 'react-hot-toast';
+
+type Mode = 'sign-in' | 'sign-up';
+
+export default function SignInForm() {
+  const { signIn, signUp } = useAuth();
+  const [mode, setMode] = useState<Mode>('sign-in');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!email.trim() || !password) {
+      toast.error('Please enter your email and password');
+      return;
+    }
+    if (mode === 'sign-up' && !name.trim()) {
+      toast.error('Please enter your name');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      if (mode === 'sign-in') {
+        await signIn(email.trim(), password);
+      } else {
+        await signUp(name.trim(), email.trim(), password);
+      }
+      toast.success(mode === 'sign-in' ? 'Signed in' : 'Account created');
+    } catch (error) {
+      console.error('Authentication error:', error);
+      toast.error(
+        error instanceof AuthError
+          ? 'Invalid email or password'
+          : getErrorMessage(error, mode === 'sign-in' ? 'Failed to sign in' : 'Failed to create account')
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-lg shadow-lg p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">
+        {mode === 'sign-in' ? 'Sign in' : 'Create an account'}
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Your papers, schedules and timer are kept separately for each member of your study group.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === 'sign-up' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              autoComplete="name"
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            autoComplete="email"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-6 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitting ? 'Please wait...' : mode === 'sign-in' ? 'Sign in' : 'Create account'}
+        </button>
+      </form>
+
+      <p className="text-sm text-gray-600 mt-6 text-center">
+        {mode === 'sign-in' ? "Don't have an account? " : 'Already have an account? '}
+        <button
+          onClick={() => setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')}
+          className="font-medium text-primary-600 hover:text-primary-700"
+        >
+          {mode === 'sign-in' ? 'Create one' : 'Sign in'}
+        </button>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Similar Question Finder Component - search past papers for related questions
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { showErrorToast } from '@/lib/errors';
+import { SimilarQuestion } from '@/types';
+import { useSubject } from '@/components/SubjectProvider';
+import toast from 'react-hot-toast';
+
+const DEFAULT_THRESHOLD = 0.75;
+
+interface SimilarQuestionFinderProps {
+  // A new object triggers a search, so the same question can be searched twice
+  searchRequest?: { text: string } | null;
+}
+
+export default function SimilarQuestionFinder({ searchRequest }: SimilarQuestionFinderProps) {
+  const [question, setQuestion] = useState('');
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [matches, setMatches] = useState<SimilarQuestion[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const getSignal = useAbortOnUnmount();
+  const { subject } = useSubject();
+
+  useEffect(() => {
+    if (searchRequest?.text) {
+      setQuestion(searchRequest.text);
+      search(searchRequest.text);
+    }
+  }, [searchRequest]);
+
+  const search = async (text: string = question) => {
+    if (!text.trim()) {
+      toast.error('Please enter a question to search for');
+      return;
+    }
+
+    try {
+      setSearching(true);
+      const results = await apiClient.findSimilarQuestions(
+        subject ?? undefined,
+        text.trim(),
+        threshold,
+        { signal: getSignal() }
+      );
+      setMatches([...results].sort((a, b) => b.similarity - a.similarity));
+    } catch (error) {
+      console.error('Similar questions error:', error);
+      showErrorToast(error, 'Failed to find similar questions');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">
+        🔍 Find Similar Past Questions
+      </h3>
+
+      <textarea
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        placeholder="Paste a question to find similar ones from previous papers..."
+        rows={3}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      />
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4 mt-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Similarity Threshold: {(threshold * 100).toFixed(0)}%
+          </label>
+          <input
+            type="range"
+            min="0.5"
+            max="0.95"
+            step="0.05"
+            value={threshold}
+            onChange={(e) => setThreshold(parseFloat(e.target.value))}
+            className="w-full"
+          />
+        </div>
+        <button
+          onClick={() => search()}
+          disabled={searching}
+          className="flex items-center justify-center gap-2 px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          <MagnifyingGlassIcon className="w-5 h-5" />
+          {searching ? 'Searching...' : 'Search'}
+        </button>
+      </div>
+
+      {matches && (
+        <div className="mt-6">
+          {matches.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No past questions above {(threshold * 100).toFixed(0)}% similarity. Try lowering the threshold.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {matches.map((match, index) => (
+                <div key={index} className="border-l-4 border-green-500 bg-gray-50 p-4 rounded">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-sm font-bold text-green-600">#{index + 1}</span>
+                    <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
+                      {(match.similarity * 100).toFixed(0)}% similar
+                    </span>
+                    {match.year && (
+                      <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                        {match.year}
+                      </span>
+                    )}
+                    {match.topic && (
+                      <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
+                        {match.topic}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-gray-700">{match.text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
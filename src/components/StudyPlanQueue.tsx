@@ -0,0 +1,92 @@
+/**
+ * Study Plan Queue Component - the sessions of a schedule day being run in the timer
+ */
+'use client';
+
+import React from 'react';
+import { CheckCircleIcon, ForwardIcon, PlayCircleIcon } from '@heroicons/react/24/solid';
+import { formatDayLabel } from '@/lib/schedule';
+import { SessionStatus, StudyPlan } from '@/types';
+
+interface StudyPlanQueueProps {
+  plan: StudyPlan;
+  currentIndex: number;
+  statuses: Record<number, SessionStatus>;
+  onFinishEarly: () => void;
+  onSkip: () => void;
+  onEnd: () => void;
+}
+
+export default function StudyPlanQueue({
+  plan,
+  currentIndex,
+  statuses,
+  onFinishEarly,
+  onSkip,
+  onEnd,
+}: StudyPlanQueueProps) {
+  const doneCount = Object.keys(statuses).length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mt-4">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Study Plan</h3>
+          <p className="text-xs text-gray-500">
+            {formatDayLabel(plan.schedule, plan.day)} • {doneCount}/{plan.sessions.length} done
+          </p>
+        </div>
+        <button onClick={onEnd} className="text-sm text-red-600 hover:text-red-700">
+          End plan
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {plan.sessions.map((session, index) => {
+          const status = statuses[index];
+          const isDone = !!status;
+          const isCurrent = index === currentIndex && !isDone;
+          return (
+            <div
+              key={`${session.day}-${session.session_number}`}
+              className={`
+                flex items-center gap-3 p-3 rounded-lg border
+                ${isCurrent ? 'border-primary-500 bg-primary-50' : 'border-gray-200'}
+                ${isDone ? 'opacity-60' : ''}
+              `}
+            >
+              {status === 'skipped' ? (
+                <ForwardIcon className="w-5 h-5 text-gray-400" />
+              ) : isDone ? (
+                <CheckCircleIcon className={`w-5 h-5 ${status === 'partial' ? 'text-yellow-500' : 'text-green-500'}`} />
+              ) : isCurrent ? (
+                <PlayCircleIcon className="w-5 h-5 text-primary-600" />
+              ) : (
+                <div className="w-5 h-5 rounded-full border-2 border-gray-300" />
+              )}
+              <div className="flex-1">
+                <div className={`text-sm font-medium ${isDone ? 'line-through text-gray-500' : 'text-gray-800'}`}>
+                  {session.topic}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {session.duration_minutes} minutes • {session.questions_to_cover.length} questions
+                  {status && status !== 'completed' && ` • ${status}`}
+                </div>
+              </div>
+              {isCurrent && (
+                <div className="flex gap-2">
+                  <button onClick={onFinishEarly} className="text-xs text-primary-600 hover:text-primary-700">
+                    Finish early
+                  </button>
+                  <button onClick={onSkip} className="text-xs text-gray-500 hover:text-gray-700">
+                    Skip
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
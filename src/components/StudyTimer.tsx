@@ -4,103 +4,478 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { PlayIcon, PauseIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
+import { PlayIcon, PauseIcon, ArrowPathIcon, Cog6ToothIcon } from '@heroicons/react/24/solid';
 import { apiClient } from '@/lib/api';
-import { TimerState, TimerStats } from '@/types';
+import { getAuthSession } from '@/lib/auth';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { CancelledError, isNetworkError, showErrorToast } from '@/lib/errors';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import { isLedgerEmpty, LocalTimerEngine, mergeStats } from '@/lib/localTimer';
+import { TabChannel, TabLeader } from '@/lib/tabSync';
+import { ConnectionStatus, useLiveSocket } from '@/lib/socket';
+import { isTimerPong, parseTimerMessage, TIMER_PING, TimerSocketCommand, TimerSocketMessage } from '@/lib/timerProtocol';
+import { DEFAULT_TIMER_CONFIG, getPhaseSeconds, isLongBreak, loadTimerConfig, saveTimerConfig } from '@/lib/timerConfig';
+import TimerSettings from '@/components/TimerSettings';
+import StudyPlanQueue from '@/components/StudyPlanQueue';
+import { recordSessionProgress } from '@/lib/progress';
+import { OfflineLedger, SessionStatus, StudyPlan, StudySession, TimerConfig, TimerState, TimerStats } from '@/types';
 import toast from 'react-hot-toast';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 const WS_URL = API_URL.replace('http', 'ws');
 
+type TimerMode = 'remote' | 'local';
+type TimerAction = 'start' | 'pause' | 'reset';
+type TabRole = 'pending' | 'leader' | 'follower';
+
+type TimerCommand =
+  | { action: TimerAction; topic?: string }
+  | { action: 'configure'; config: TimerConfig };
+
+// What the leader tab shares so other tabs can render without their own socket
+interface TimerSnapshot {
+  state: TimerState | null;
+  stats: TimerStats | null;
+  connected: boolean;
+  mode: TimerMode;
+  ledger: OfflineLedger | null;
+}
+
+type TimerTabMessage =
+  | { type: 'snapshot'; snapshot: TimerSnapshot }
+  | { type: 'command'; command: TimerCommand }
+  | { type: 'sync-request' };
+
 interface StudyTimerProps {
-  userId?: string;
+  userId: string;
   currentTopic?: string;
+  plan?: StudyPlan | null;
+  onPlanEnd?: () => void;
 }
 
-export default function StudyTimer({ userId = 'default_user', currentTopic }: StudyTimerProps) {
+export default function StudyTimer({ userId, currentTopic, plan, onPlanEnd }: StudyTimerProps) {
   const [timerState, setTimerState] = useState<TimerState | null>(null);
   const [stats, setStats] = useState<TimerStats | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
+  const [config, setConfig] = useState<TimerConfig>(DEFAULT_TIMER_CONFIG);
+  const [showSettings, setShowSettings] = useState(false);
+  const [sessionIndex, setSessionIndex] = useState(0);
+  const [sessionStatuses, setSessionStatuses] = useState<Record<number, SessionStatus>>({});
+  const [mode, setMode] = useState<TimerMode>('remote');
+  const [ledger, setLedger] = useState<OfflineLedger | null>(null);
+  const [role, setRole] = useState<TabRole>('pending');
+  const previousStateRef = useRef<TimerState | null>(null);
+  const modeRef = useRef<TimerMode>('remote');
+  const engineRef = useRef<LocalTimerEngine | null>(null);
+  const handoverPendingRef = useRef(false);
+  const syncingLedgerRef = useRef(false);
+  const timerStateRef = useRef<TimerState | null>(null);
+  const activeConfigRef = useRef<TimerConfig>(DEFAULT_TIMER_CONFIG);
+  const roleRef = useRef<TabRole>('pending');
+  const channelRef = useRef<TabChannel<TimerTabMessage> | null>(null);
+  const pendingCommandsRef = useRef<TimerCommand[]>([]);
+  const commandChainRef = useRef<Promise<void>>(Promise.resolve());
+  const snapshotRef = useRef<TimerSnapshot | null>(null);
+  const previousPlanRef = useRef<StudyPlan | null>(null);
+  const getSignal = useAbortOnUnmount();
+
+  const activeSession: StudySession | undefined = plan?.sessions[sessionIndex];
+  const activeTopic = activeSession?.topic ?? currentTopic;
+  // A planned session overrides the focus length for as long as it runs
+  const activeConfig: TimerConfig = activeSession
+    ? { ...config, study_duration: activeSession.duration_minutes }
+    : config;
+  timerStateRef.current = timerState;
+  activeConfigRef.current = activeConfig;
+  snapshotRef.current = { state: timerState, stats, connected: isConnected, mode, ledger };
+
+  // Only the leader tab holds the socket; the server state may have moved on while we were away
+  useLiveSocket<TimerSocketMessage, TimerSocketCommand>({
+    url: `${WS_URL}/api/timer/ws/${userId}`,
+    parse: parseTimerMessage,
+    onMessage: message => handleSocketMessage(message),
+    onStatusChange: status => handleSocketStatus(status),
+    onOpen: reconnected => {
+      if (reconnected) fetchTimerState();
+    },
+    subscriptions: () => [{ type: 'subscribe', user_id: userId, token: getAuthSession()?.access_token }],
+    ping: TIMER_PING,
+    isPong: isTimerPong,
+  }, role === 'leader');
 
-  // Initialize timer and WebSocket connection
+  // Load settings and elect the tab that owns the WebSocket connection for this user
   useEffect(() => {
-    initializeTimer();
-    connectWebSocket();
+    setConfig(loadTimerConfig(userId));
+    const channel = new TabChannel<TimerTabMessage>(`study-timer:${userId}`);
+    channelRef.current = channel;
+    const unsubscribe = channel.subscribe(handleTabMessage);
+    const leader = new TabLeader(`study-timer:${userId}`, isLeader =>
+      isLeader ? becomeLeader() : becomeFollower()
+    );
+
+    // Without BroadcastChannel there is nothing to coordinate with
+    if (channel.supported) {
+      leader.start();
+    } else {
+      becomeLeader();
+    }
 
     return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
+      leader.stop();
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+      stopLeading();
+      roleRef.current = 'pending';
+      setRole('pending');
     };
   }, [userId]);
 
-  const initializeTimer = async () => {
+  // Share every change with the follower tabs
+  useEffect(() => {
+    if (roleRef.current === 'leader' && snapshotRef.current) {
+      channelRef.current?.post({ type: 'snapshot', snapshot: snapshotRef.current });
+    }
+  }, [timerState, stats, isConnected, mode, ledger]);
+
+  // Start a handed-over plan from its first session, restoring the user's durations once it ends
+  useEffect(() => {
+    setSessionIndex(0);
+    setSessionStatuses({});
+    if (plan && plan.sessions.length > 0) {
+      beginSession(plan.sessions[0]);
+    } else if (previousPlanRef.current) {
+      dispatchCommand({ action: 'configure', config: loadTimerConfig(userId) });
+    }
+    previousPlanRef.current = plan ?? null;
+  }, [plan, userId]);
+
+  // Focus -> break marks the session done; break -> focus moves to the next one
+  useEffect(() => {
+    const previous = previousStateRef.current;
+    previousStateRef.current = timerState;
+    if (!plan || !previous || !timerState) return;
+
+    if (!previous.is_break && timerState.is_break && activeSession && !sessionStatuses[sessionIndex]) {
+      finishSession('completed', activeSession.duration_minutes);
+    } else if (previous.is_break && !timerState.is_break) {
+      advanceSession();
+    }
+  }, [timerState]);
+
+  const beginSession = async (session: StudySession) => {
+    try {
+      await dispatchCommand({
+        action: 'configure',
+        config: { ...loadTimerConfig(userId), study_duration: session.duration_minutes },
+      });
+      await dispatchCommand({ action: 'start', topic: session.topic });
+      toast.success(`Studying: ${session.topic}`);
+    } catch (error) {
+      showErrorToast(error, 'Failed to start timer');
+    }
+  };
+
+  const finishSession = (status: SessionStatus, actualMinutes: number) => {
+    if (!plan || !activeSession) return;
+    recordSessionProgress(plan.schedule, activeSession, status, actualMinutes);
+    setSessionStatuses(prev => ({ ...prev, [sessionIndex]: status }));
+  };
+
+  // Ends the current planned session early and moves straight on
+  const handleEndSessionEarly = (status: 'partial' | 'skipped') => {
+    if (!timerState || !activeSession) return;
+    const elapsedSeconds = timerState.is_break
+      ? activeSession.duration_minutes * 60
+      : activeSession.duration_minutes * 60 - timerState.time_remaining;
+    if (!sessionStatuses[sessionIndex]) {
+      finishSession(status, status === 'skipped' ? 0 : elapsedSeconds / 60);
+    }
+    advanceSession();
+  };
+
+  const advanceSession = () => {
+    if (!plan) return;
+    const nextIndex = sessionIndex + 1;
+    setSessionIndex(nextIndex);
+    if (nextIndex < plan.sessions.length) {
+      beginSession(plan.sessions[nextIndex]);
+    } else {
+      toast.success('All sessions for today are done! 🎉', { duration: 5000 });
+    }
+  };
+
+  const becomeLeader = () => {
+    // A follower taking over inherits a timer that is already running
+    const takingOver = roleRef.current === 'follower' && timerStateRef.current !== null;
+    roleRef.current = 'leader';
+    setRole('leader');
+
+    const engine = new LocalTimerEngine(userId, handleLocalUpdate);
+    engineRef.current = engine;
+    setLedger(engine.getLedger());
+
+    if (!takingOver) {
+      dispatchCommand({ action: 'configure', config: loadTimerConfig(userId) });
+      // Time counted offline before the page was closed is reported on the next visit
+      if (modeRef.current === 'remote') syncOfflineLedger();
+    } else if (modeRef.current === 'local') {
+      setTimerState(engine.getState());
+    } else {
+      fetchTimerState();
+      fetchStats();
+    }
+    flushPendingCommands();
+  };
+
+  const becomeFollower = () => {
+    stopLeading();
+    roleRef.current = 'follower';
+    setRole('follower');
+    channelRef.current?.post({ type: 'sync-request' });
+    flushPendingCommands();
+  };
+
+  const stopLeading = () => {
+    engineRef.current?.dispose();
+    engineRef.current = null;
+  };
+
+  const handleTabMessage = (message: TimerTabMessage) => {
+    if (message.type === 'snapshot') {
+      if (roleRef.current !== 'follower') return;
+      const { snapshot } = message;
+      modeRef.current = snapshot.mode;
+      setMode(snapshot.mode);
+      setTimerState(snapshot.state);
+      setStats(snapshot.stats);
+      setIsConnected(snapshot.connected);
+      setLedger(snapshot.ledger);
+      return;
+    }
+
+    if (roleRef.current !== 'leader') return;
+    if (message.type === 'command') {
+      dispatchCommand(message.command).catch(error => console.error('Timer command error:', error));
+    } else if (snapshotRef.current) {
+      channelRef.current?.post({ type: 'snapshot', snapshot: snapshotRef.current });
+    }
+  };
+
+  /**
+   * Applies a timer control exactly once: the leader runs it (one at a time, in order),
+   * followers forward it, and commands issued before the election are held until it settles
+   */
+  const dispatchCommand = (command: TimerCommand): Promise<void> => {
+    if (roleRef.current === 'follower') {
+      channelRef.current?.post({ type: 'command', command });
+      return Promise.resolve();
+    }
+    if (roleRef.current === 'pending') {
+      pendingCommandsRef.current.push(command);
+      return Promise.resolve();
+    }
+
+    const run = commandChainRef.current.then(() => executeCommand(command));
+    commandChainRef.current = run.catch(() => undefined);
+    return run;
+  };
+
+  const flushPendingCommands = () => {
+    pendingCommandsRef.current.splice(0).forEach(command => {
+      dispatchCommand(command).catch(error => console.error('Timer command error:', error));
+    });
+  };
+
+  const executeCommand = async (command: TimerCommand) => {
+    if (command.action === 'configure') {
+      await configureTimer(command.config);
+      return;
+    }
+    await runTimerAction(command.action, command.topic);
+    if (command.action === 'reset') fetchStats();
+  };
+
+  const configureTimer = async (timerConfig: TimerConfig) => {
+    if (modeRef.current === 'local') {
+      engineRef.current?.configure(timerConfig);
+      return;
+    }
+
     try {
-      await apiClient.createTimer(userId, 25, 5, 15, 4);
+      await apiClient.createTimer(
+        userId,
+        timerConfig.study_duration,
+        timerConfig.break_duration,
+        timerConfig.long_break_duration,
+        timerConfig.sessions_until_long_break
+      );
       fetchTimerState();
       fetchStats();
     } catch (error) {
+      if (error instanceof CancelledError) return;
+      // Any backend failure, not just an unreachable one, leaves the timer running locally
       console.error('Timer initialization error:', error);
+      switchToLocal();
+      engineRef.current?.configure(timerConfig);
     }
   };
 
-  const connectWebSocket = () => {
-    const ws = new WebSocket(`${WS_URL}/api/timer/ws/${userId}`);
+  const notify = (message: string) => {
+    toast.success(message, { duration: 5000 });
 
-    ws.onopen = () => {
-      console.log('WebSocket connected');
-      setIsConnected(true);
-    };
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification('Study Timer', { body: message });
+    }
+  };
+
+  const handleLocalUpdate = (state: TimerState, notification?: string) => {
+    if (modeRef.current !== 'local') return;
+    setTimerState(state);
+    setLedger(engineRef.current?.getLedger() ?? null);
+    if (notification) notify(notification);
+    // Hand back to the backend on a phase boundary so no focus time is cut short
+    if (handoverPendingRef.current && !engineRef.current?.isMidPhase()) {
+      handBackToBackend();
+    }
+  };
+
+  // Continues the countdown in the browser from the last known backend state
+  const switchToLocal = () => {
+    const engine = engineRef.current;
+    if (modeRef.current === 'local' || !engine) return;
+    modeRef.current = 'local';
+    setMode('local');
+
+    if (timerStateRef.current) {
+      engine.adopt(timerStateRef.current, activeConfigRef.current);
+    } else {
+      engine.configure(activeConfigRef.current);
+    }
+    setTimerState(engine.getState());
+    toast('Timer server unavailable, running locally', { icon: '📴' });
+  };
+
+  // Carries the local phase and remaining time over, so a break that just started and the
+  // long-break cadence survive the handover
+  const handBackToBackend = async () => {
+    handoverPendingRef.current = false;
+    const engine = engineRef.current;
+    if (!engine) return;
+    const state = engine.getState();
+
+    // Switch first so the engine's pause is not shown; a paused engine no longer adds to the ledger
+    modeRef.current = 'remote';
+    engine.pause();
+
+    try {
+      const result = await apiClient.restoreTimer(userId, activeConfigRef.current, state);
+      setTimerState(result.state ?? state);
+    } catch (error) {
+      console.error('Timer handover error:', error);
+      modeRef.current = 'local';
+      engine.adopt(state, activeConfigRef.current);
+      return;
+    }
+
+    setMode('remote');
+    const synced = await syncOfflineLedger();
+    toast.success(synced ? 'Timer server reconnected, offline focus time synced' : 'Timer server reconnected');
+  };
+
+  // Reports offline time to the backend and clears it locally once acknowledged; kept for the next try on failure
+  const syncOfflineLedger = async (): Promise<boolean> => {
+    const engine = engineRef.current;
+    const pending = engine?.getLedger();
+    if (!engine || !pending || isLedgerEmpty(pending) || syncingLedgerRef.current) return false;
 
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      setTimerState(data.state);
-
-      // Show notification if available
-      if (data.notification) {
-        toast.success(data.notification, { duration: 5000 });
-        
-        // Play notification sound (optional)
-        if ('Notification' in window && Notification.permission === 'granted') {
-          new Notification('Study Timer', { body: data.notification });
-        }
+    syncingLedgerRef.current = true;
+    try {
+      await apiClient.recordOfflineTime(userId, pending);
+      engine.settleLedger(pending);
+      setLedger(engine.getLedger());
+      fetchStats();
+      return true;
+    } catch (error) {
+      console.error('Offline time sync error:', error);
+      return false;
+    } finally {
+      syncingLedgerRef.current = false;
+    }
+  };
+
+  const handleBackendAvailable = () => {
+    if (modeRef.current !== 'local' || handoverPendingRef.current) return;
+    if (engineRef.current?.isMidPhase()) {
+      handoverPendingRef.current = true;
+    } else {
+      handBackToBackend();
+    }
+  };
+
+  // Runs a control on the backend, falling back to the local engine when unreachable
+  const runTimerAction = async (action: TimerAction, topic?: string) => {
+    if (modeRef.current === 'remote') {
+      try {
+        if (action === 'start') await apiClient.startTimer(userId, topic);
+        else if (action === 'pause') await apiClient.pauseTimer(userId);
+        else await apiClient.resetTimer(userId);
+        return;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        switchToLocal();
       }
-    };
+    }
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      setIsConnected(false);
-    };
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (action === 'start') engine.start(topic);
+    else if (action === 'pause') engine.pause();
+    else engine.reset();
+  };
 
-    ws.onclose = () => {
-      console.log('WebSocket disconnected');
-      setIsConnected(false);
-      
-      // Attempt reconnection after 3 seconds
-      setTimeout(() => {
-        if (wsRef.current?.readyState === WebSocket.CLOSED) {
-          connectWebSocket();
-        }
-      }, 3000);
-    };
+  const handleSocketStatus = (status: ConnectionStatus) => {
+    setIsConnected(status === 'open');
+    if (status === 'open') {
+      handleBackendAvailable();
+    } else if (status === 'reconnecting') {
+      switchToLocal();
+    }
+  };
 
-    wsRef.current = ws;
+  const handleSocketMessage = (message: TimerSocketMessage) => {
+    // The local engine owns the state until the handover completes
+    if (modeRef.current === 'local') return;
+
+    if (message.type === 'error') {
+      console.error('Timer socket error:', message.detail);
+    } else if (message.type === 'state') {
+      setTimerState(message.state);
+      if (message.notification) {
+        notify(message.notification);
+      }
+    }
   };
 
   const fetchTimerState = async () => {
+    if (modeRef.current === 'local') return;
     try {
-      const response = await apiClient.getTimerState(userId);
-      setTimerState(response.data.state);
+      setTimerState(await apiClient.getTimerState(userId, { signal: getSignal() }));
     } catch (error) {
+      if (error instanceof CancelledError) return;
       console.error('Error fetching timer state:', error);
+      // Without a state to show, the timer would otherwise wait on the backend forever
+      if (!timerStateRef.current) switchToLocal();
     }
   };
 
   const fetchStats = async () => {
     try {
-      const response = await apiClient.getTimerStats(userId);
-      setStats(response.data.stats);
+      await staleWhileRevalidate(
+        `timer-stats:${userId}`,
+        () => apiClient.getTimerStats(userId, { signal: getSignal() }),
+        (data: TimerStats) => setStats(data)
+      );
     } catch (error) {
       console.error('Error fetching stats:', error);
     }
@@ -108,32 +483,42 @@ export default function StudyTimer({ userId = 'default_user', currentTopic }: St
 
   const handleStart = async () => {
     try {
-      await apiClient.startTimer(userId, currentTopic);
+      await dispatchCommand({ action: 'start', topic: activeTopic });
       toast.success('Timer started!');
     } catch (error) {
-      toast.error('Failed to start timer');
+      showErrorToast(error, 'Failed to start timer');
     }
   };
 
   const handlePause = async () => {
     try {
-      await apiClient.pauseTimer(userId);
+      await dispatchCommand({ action: 'pause' });
       toast.success('Timer paused');
     } catch (error) {
-      toast.error('Failed to pause timer');
+      showErrorToast(error, 'Failed to pause timer');
     }
   };
 
   const handleReset = async () => {
     try {
-      await apiClient.resetTimer(userId);
-      fetchStats();
+      await dispatchCommand({ action: 'reset' });
       toast.success('Timer reset');
     } catch (error) {
-      toast.error('Failed to reset timer');
+      showErrorToast(error, 'Failed to reset timer');
     }
   };
 
+  const handleSaveSettings = async (newConfig: TimerConfig) => {
+    saveTimerConfig(userId, newConfig);
+    setConfig(newConfig);
+    setShowSettings(false);
+    await dispatchCommand({
+      action: 'configure',
+      config: activeSession ? { ...newConfig, study_duration: activeSession.duration_minutes } : newConfig,
+    });
+    toast.success('Timer settings saved');
+  };
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -148,28 +533,49 @@ export default function StudyTimer({ userId = 'default_user', currentTopic }: St
     );
   }
 
-  const progressPercentage = timerState.is_break
-    ? 100 - (timerState.time_remaining / (5 * 60)) * 100
-    : 100 - (timerState.time_remaining / (25 * 60)) * 100;
+  const longBreak = isLongBreak(timerState, activeConfig);
+  // Offline focus time is added to the server totals until the backend has caught up
+  const displayStats = stats || ledger?.sessions_completed || ledger?.study_minutes
+    ? mergeStats(stats, ledger || { sessions_completed: 0, study_minutes: 0, break_minutes: 0 }, timerState)
+    : null;
+  const progressPercentage = 100 - (timerState.time_remaining / getPhaseSeconds(timerState, activeConfig)) * 100;
 
   return (
     <div className="w-full max-w-md mx-auto">
       {/* Connection Status */}
       <div className="flex items-center justify-end mb-2">
-        <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+        <div className={`w-2 h-2 rounded-full ${mode === 'local' ? 'bg-yellow-500' : isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
         <span className="ml-2 text-xs text-gray-500">
-          {isConnected ? 'Connected' : 'Disconnected'}
+          {mode === 'local'
+            ? `Local timer${isConnected ? ' (syncing after this phase)' : ' (offline)'}`
+            : isConnected ? 'Connected' : 'Disconnected'}
+          {role === 'follower' && ' · shared with another tab'}
         </span>
+        <button
+          onClick={() => setShowSettings(prev => !prev)}
+          className="ml-4 text-gray-400 hover:text-gray-600"
+          title="Timer settings"
+        >
+          <Cog6ToothIcon className="w-5 h-5" />
+        </button>
       </div>
 
+      {showSettings && (
+        <TimerSettings
+          config={config}
+          onSave={handleSaveSettings}
+          onCancel={() => setShowSettings(false)}
+        />
+      )}
+
       {/* Timer Display */}
       <div className="bg-white rounded-2xl shadow-lg p-8">
         <div className="text-center mb-6">
           <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-1">
-            {timerState.is_break ? '☕ Break Time' : '📚 Focus Time'}
+            {timerState.is_break ? (longBreak ? '🌴 Long Break' : '☕ Break Time') : '📚 Focus Time'}
           </h3>
-          {currentTopic && !timerState.is_break && (
-            <p className="text-xs text-gray-400">{currentTopic}</p>
+          {activeTopic && !timerState.is_break && (
+            <p className="text-xs text-gray-400">{activeTopic}</p>
           )}
         </div>
 
@@ -189,7 +595,7 @@ export default function StudyTimer({ userId = 'default_user', currentTopic }: St
               cy="128"
               r="120"
               fill="none"
-              stroke={timerState.is_break ? '#10b981' : '#3b82f6'}
+              stroke={timerState.is_break ? (longBreak ? '#8b5cf6' : '#10b981') : '#3b82f6'}
               strokeWidth="8"
               strokeDasharray={`${2 * Math.PI * 120}`}
               strokeDashoffset={`${2 * Math.PI * 120 * (1 - progressPercentage / 100)}`}
@@ -238,25 +644,37 @@ export default function StudyTimer({ userId = 'default_user', currentTopic }: St
           </button>
         </div>
 
+        {/* Questions for the planned session */}
+        {activeSession && !timerState.is_break && activeSession.questions_to_cover.length > 0 && (
+          <div className="mt-6 text-left">
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Questions to cover</h4>
+            <ul className="space-y-1 list-disc pl-5 max-h-40 overflow-y-auto">
+              {activeSession.questions_to_cover.map((question, index) => (
+                <li key={index} className="text-sm text-gray-600">{question}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Stats */}
-        {stats && (
+        {displayStats && (
           <div className="mt-8 pt-6 border-t border-gray-200">
             <div className="grid grid-cols-3 gap-4 text-center">
               <div>
                 <div className="text-2xl font-bold text-gray-800">
-                  {stats.sessions_completed}
+                  {displayStats.sessions_completed}
                 </div>
                 <div className="text-xs text-gray-500">Sessions</div>
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-800">
-                  {stats.total_study_minutes}
+                  {displayStats.total_study_minutes}
                 </div>
                 <div className="text-xs text-gray-500">Study mins</div>
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-800">
-                  {stats.total_break_minutes}
+                  {displayStats.total_break_minutes}
                 </div>
                 <div className="text-xs text-gray-500">Break mins</div>
               </div>
@@ -264,6 +682,17 @@ export default function StudyTimer({ userId = 'default_user', currentTopic }: St
           </div>
         )}
       </div>
+
+      {plan && (
+        <StudyPlanQueue
+          plan={plan}
+          currentIndex={sessionIndex}
+          statuses={sessionStatuses}
+          onFinishEarly={() => handleEndSessionEarly('partial')}
+          onSkip={() => handleEndSessionEarly('skipped')}
+          onEnd={() => onPlanEnd?.()}
+        />
+      )}
     </div>
   );
 }
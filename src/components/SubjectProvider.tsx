@@ -0,0 +1,64 @@
+/**
+ * Subject Provider Component - the active subject workspace for the signed-in user
+ */
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import { getSubjects, loadActiveSubject, saveActiveSubject } from '@/lib/subjects';
+import { useAuth } from '@/components/AuthProvider';
+
+interface SubjectContextValue {
+  subjects: string[];
+  // null means all subjects
+  subject: string | null;
+  setSubject: (subject: string | null) => void;
+  refreshSubjects: () => Promise<void>;
+}
+
+const SubjectContext = createContext<SubjectContextValue | null>(null);
+
+export const useSubject = (): SubjectContextValue => {
+  const context = useContext(SubjectContext);
+  if (!context) {
+    throw new Error('useSubject must be used inside SubjectProvider');
+  }
+  return context;
+};
+
+export default function SubjectProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [subjects, setSubjects] = useState<string[]>([]);
+  const [subject, setActiveSubject] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSubjects([]);
+    setActiveSubject(user ? loadActiveSubject(user.id) : null);
+    if (user) refreshSubjects();
+  }, [user?.id]);
+
+  // Subjects are whatever the uploaded papers were tagged with
+  const refreshSubjects = async () => {
+    try {
+      await staleWhileRevalidate(
+        'papers',
+        () => apiClient.getPapers(),
+        (papers) => setSubjects(getSubjects(papers))
+      );
+    } catch (error) {
+      console.error('Subjects error:', error);
+    }
+  };
+
+  const setSubject = (next: string | null) => {
+    setActiveSubject(next);
+    if (user) saveActiveSubject(user.id, next);
+  };
+
+  return (
+    <SubjectContext.Provider value={{ subjects, subject, setSubject, refreshSubjects }}>
+      {children}
+    </SubjectContext.Provider>
+  );
+}
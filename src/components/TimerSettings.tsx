@@ -0,0 +1,83 @@
+/**
+ * Timer Settings Component - edit Pomodoro durations
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { TimerConfig } from '@/types';
+import { DEFAULT_TIMER_CONFIG } from '@/lib/timerConfig';
+import toast from 'react-hot-toast';
+
+interface TimerSettingsProps {
+  config: TimerConfig;
+  onSave: (config: TimerConfig) => void;
+  onCancel: () => void;
+}
+
+const FIELDS: { key: keyof TimerConfig; label: string; unit: string; min: number; max: number }[] = [
+  { key: 'study_duration', label: 'Focus', unit: 'min', min: 1, max: 120 },
+  { key: 'break_duration', label: 'Short break', unit: 'min', min: 1, max: 30 },
+  { key: 'long_break_duration', label: 'Long break', unit: 'min', min: 1, max: 60 },
+  { key: 'sessions_until_long_break', label: 'Sessions until long break', unit: 'sessions', min: 1, max: 12 },
+];
+
+export default function TimerSettings({ config, onSave, onCancel }: TimerSettingsProps) {
+  const [draft, setDraft] = useState<TimerConfig>(config);
+
+  const handleSave = () => {
+    const invalid = FIELDS.find(({ key, min, max }) => !(draft[key] >= min && draft[key] <= max));
+    if (invalid) {
+      toast.error(`${invalid.label} must be between ${invalid.min} and ${invalid.max}`);
+      return;
+    }
+    onSave(draft);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-4">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">Timer Settings</h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        {FIELDS.map(({ key, label, unit, min, max }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                min={min}
+                max={max}
+              />
+              <span className="text-xs text-gray-500">{unit}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-6">
+        <button
+          onClick={() => setDraft(DEFAULT_TIMER_CONFIG)}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Restore defaults
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
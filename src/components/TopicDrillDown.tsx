@@ -0,0 +1,157 @@
+/**
+ * Topic Drill-Down Component - per-topic questions, yearly frequency and difficulty
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { showErrorToast } from '@/lib/errors';
+import { averageDifficulty, countByYear } from '@/lib/questions';
+import { Question, TopicAnalysis } from '@/types';
+import { useSubject } from '@/components/SubjectProvider';
+
+interface TopicDrillDownProps {
+  topic: string;
+  onClose: () => void;
+}
+
+export default function TopicDrillDown({ topic, onClose }: TopicDrillDownProps) {
+  const [analysis, setAnalysis] = useState<TopicAnalysis | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+  const getSignal = useAbortOnUnmount();
+  const { subject } = useSubject();
+
+  useEffect(() => {
+    fetchTopic();
+  }, [topic]);
+
+  const fetchTopic = async () => {
+    try {
+      setLoading(true);
+      const [topicAnalysis, topicQuestions] = await Promise.all([
+        apiClient.getAnalysis(subject ?? undefined, topic, undefined, { signal: getSignal() }),
+        apiClient.getQuestions(subject ?? undefined, topic, undefined, { signal: getSignal() }),
+      ]);
+      const { topics } = topicAnalysis;
+      setAnalysis(topics.find(t => t.topic === topic) || topics[0] || null);
+      setQuestions(topicQuestions);
+    } catch (error) {
+      console.error('Topic drill-down error:', error);
+      showErrorToast(error, `Failed to load details for ${topic}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const yearlyFrequency = countByYear(questions);
+  const difficulty = analysis?.avg_difficulty || averageDifficulty(questions);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+
+      <div className="relative w-full max-w-2xl h-full bg-white shadow-xl overflow-y-auto p-6">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <p className="text-xs text-gray-500 uppercase tracking-wide">Topic</p>
+            <h2 className="text-2xl font-bold text-gray-900">{topic}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600" />
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="p-4 bg-blue-50 rounded-lg">
+                <div className="text-2xl font-bold text-gray-900">
+                  {analysis?.frequency ?? questions.length}
+                </div>
+                <div className="text-sm text-gray-600">Occurrences</div>
+              </div>
+              <div className="p-4 bg-yellow-50 rounded-lg">
+                <div className="text-2xl font-bold text-gray-900">
+                  {analysis ? `${(analysis.importance_score * 100).toFixed(0)}%` : '-'}
+                </div>
+                <div className="text-sm text-gray-600">Importance</div>
+              </div>
+              <div className="p-4 bg-purple-50 rounded-lg">
+                <div className="text-2xl font-bold text-gray-900 capitalize">{difficulty || '-'}</div>
+                <div className="text-sm text-gray-600">Avg Difficulty</div>
+              </div>
+            </div>
+
+            {/* Frequency per Year */}
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Frequency per Year</h3>
+              {yearlyFrequency.length > 0 ? (
+                <ResponsiveContainer width="100%" height={200}>
+                  <BarChart data={yearlyFrequency}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="count" fill="#8b5cf6" name="Questions" />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-sm text-gray-500">No year information for this topic's questions.</p>
+              )}
+            </div>
+
+            {/* Key Questions from the topic analysis */}
+            {analysis && analysis.questions.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-3">Key Questions</h3>
+                <ul className="space-y-2 list-disc pl-5">
+                  {analysis.questions.map((text, index) => (
+                    <li key={index} className="text-sm text-gray-700">{text}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* All Questions */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">
+                All Questions ({questions.length})
+              </h3>
+              <div className="space-y-3">
+                {questions.map(question => (
+                  <div key={question.id} className="border-l-4 border-primary-500 bg-gray-50 p-3 rounded">
+                    <div className="flex items-center gap-2 mb-1">
+                      {question.year && (
+                        <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                          {question.year}
+                        </span>
+                      )}
+                      {question.difficulty && (
+                        <span className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded">
+                          {question.difficulty}
+                        </span>
+                      )}
+                      <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                        Importance: {(question.importance_score * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700">{question.text}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
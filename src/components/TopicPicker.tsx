@@ -0,0 +1,144 @@
+/**
+ * Topic Picker Component - choose which topics a schedule should cover
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import { scopedCacheKey } from '@/lib/subjects';
+import { TopicAnalysis } from '@/types';
+import { useSubject } from '@/components/SubjectProvider';
+
+const TOP_N_SHORTCUTS = [3, 5, 10];
+
+interface TopicPickerProps {
+  selected: string[];
+  onChange: (topics: string[]) => void;
+}
+
+export default function TopicPicker({ selected, onChange }: TopicPickerProps) {
+  const [topics, setTopics] = useState<TopicAnalysis[]>([]);
+  const [loading, setLoading] = useState(true);
+  const getSignal = useAbortOnUnmount();
+  const { subject } = useSubject();
+
+  useEffect(() => {
+    fetchTopics();
+  }, []);
+
+  const fetchTopics = async () => {
+    try {
+      setLoading(true);
+      await staleWhileRevalidate(
+        scopedCacheKey('topics', subject),
+        () => apiClient.getTopics(subject ?? undefined, { signal: getSignal() }),
+        (data) => {
+          setTopics([...data].sort((a, b) => b.importance_score - a.importance_score));
+          setLoading(false);
+        }
+      );
+    } catch (error) {
+      console.error('Topics error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleTopic = (topic: string) => {
+    onChange(
+      selected.includes(topic)
+        ? selected.filter(t => t !== topic)
+        : [...selected, topic]
+    );
+  };
+
+  const selectTopN = (n: number) => {
+    onChange(topics.slice(0, n).map(t => t.topic));
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading topics...</p>;
+  }
+
+  if (topics.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No topics available yet. Upload exam papers to choose specific topics.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {TOP_N_SHORTCUTS.filter(n => n < topics.length).map(n => (
+          <button
+            key={n}
+            type="button"
+            onClick={() => selectTopN(n)}
+            className="px-3 py-1 text-xs font-medium bg-primary-50 text-primary-700 rounded-full hover:bg-primary-100"
+          >
+            Top {n}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange(topics.map(t => t.topic))}
+          className="px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200"
+        >
+          Select all
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200"
+        >
+          Clear
+        </button>
+        <span className="ml-auto text-xs text-gray-500">
+          {selected.length === 0
+            ? 'All topics will be planned'
+            : `${selected.length} of ${topics.length} topics selected`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-64 overflow-y-auto">
+        {topics.map(topic => (
+          <label
+            key={topic.topic}
+            className={`
+              flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors
+              ${selected.includes(topic.topic)
+                ? 'border-primary-500 bg-primary-50'
+                : 'border-gray-200 hover:border-gray-300'
+              }
+            `}
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(topic.topic)}
+              onChange={() => toggleTopic(topic.topic)}
+              className="h-4 w-4 text-primary-600 rounded"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-700 truncate">{topic.topic}</span>
+                <span className="text-xs text-gray-500 ml-2">
+                  {(topic.importance_score * 100).toFixed(0)}%
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div
+                  className="bg-yellow-500 h-1.5 rounded-full"
+                  style={{ width: `${topic.importance_score * 100}%` }}
+                />
+              </div>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Topic Trends Component - year-over-year question counts and reappearance cues
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { apiClient } from '@/lib/api';
+import { useAbortOnUnmount } from '@/lib/cancellation';
+import { staleWhileRevalidate } from '@/lib/offlineStore';
+import { buildTrendMatrix, TrendMatrix } from '@/lib/trends';
+import { scopedCacheKey } from '@/lib/subjects';
+import { useSubject } from '@/components/SubjectProvider';
+
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+const MAX_CHART_TOPICS = 6;
+const MAX_HEATMAP_TOPICS = 15;
+
+export default function TopicTrends() {
+  const [matrix, setMatrix] = useState<TrendMatrix | null>(null);
+  const [loading, setLoading] = useState(true);
+  const getSignal = useAbortOnUnmount();
+  const { subject } = useSubject();
+
+  useEffect(() => {
+    fetchTrends();
+  }, []);
+
+  const fetchTrends = async () => {
+    try {
+      setLoading(true);
+      await staleWhileRevalidate(
+        scopedCacheKey('questions', subject),
+        () => apiClient.getQuestions(subject ?? undefined, undefined, 1000, { signal: getSignal() }),
+        (questions) => {
+          setMatrix(buildTrendMatrix(questions));
+          setLoading(false);
+        }
+      );
+    } catch (error) {
+      console.error('Trends error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <p className="text-sm text-gray-500">Loading trends...</p>
+      </div>
+    );
+  }
+
+  if (!matrix || matrix.years.length < 2) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">📈 Year-over-Year Trends</h3>
+        <p className="text-sm text-gray-500">
+          Upload papers from at least two different years to see trends.
+        </p>
+      </div>
+    );
+  }
+
+  const chartTopics = matrix.trends.slice(0, MAX_CHART_TOPICS);
+  const chartData = matrix.years.map(year => {
+    const row: Record<string, number> = { year };
+    chartTopics.forEach(trend => {
+      row[trend.topic] = trend.countsByYear[year] || 0;
+    });
+    return row;
+  });
+
+  const heatmapTopics = matrix.trends.slice(0, MAX_HEATMAP_TOPICS);
+  const maxCount = Math.max(
+    ...heatmapTopics.flatMap(trend => Object.values(trend.countsByYear))
+  );
+  const dueTopics = matrix.trends.filter(trend => trend.isDue);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">📈 Year-over-Year Trends</h3>
+
+      {/* Questions per Year Line Chart */}
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" />
+          <YAxis allowDecimals={false} />
+          <Tooltip />
+          <Legend />
+          {chartTopics.map((trend, index) => (
+            <Line
+              key={trend.topic}
+              type="monotone"
+              dataKey={trend.topic}
+              stroke={COLORS[index % COLORS.length]}
+              strokeWidth={2}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      {/* Due to Reappear */}
+      <div className="mt-6">
+        <h4 className="text-md font-semibold text-gray-700 mb-2">⏰ Due to Reappear</h4>
+        {dueTopics.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {dueTopics.map(trend => (
+              <span
+                key={trend.topic}
+                className="px-3 py-1 bg-orange-100 text-orange-800 rounded-full text-sm"
+                title={trend.averageGap
+                  ? `Usually appears every ${trend.averageGap.toFixed(1)} years`
+                  : 'Appeared only once so far'}
+              >
+                {trend.topic} <span className="text-xs">(last {trend.lastAppeared})</span>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Every topic has appeared within its usual cycle.</p>
+        )}
+      </div>
+
+      {/* Topic x Year Heatmap */}
+      <div className="mt-6 overflow-x-auto">
+        <h4 className="text-md font-semibold text-gray-700 mb-2">Topic × Year Heatmap</h4>
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th className="text-left pr-4 py-1 font-medium text-gray-500">Topic</th>
+              {matrix.years.map(year => (
+                <th key={year} className="px-2 py-1 font-medium text-gray-500">{year}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {heatmapTopics.map(trend => (
+              <tr key={trend.topic}>
+                <td className="pr-4 py-1 text-gray-700 whitespace-nowrap">
+                  {trend.topic}
+                  {trend.isDue && <span className="ml-1 text-orange-500" title="Due to reappear">●</span>}
+                </td>
+                {matrix.years.map(year => {
+                  const count = trend.countsByYear[year] || 0;
+                  return (
+                    <td key={year} className="p-0.5">
+                      <div
+                        className="w-10 h-8 rounded flex items-center justify-center text-gray-800"
+                        style={{ backgroundColor: `rgba(59, 130, 246, ${count === 0 ? 0.05 : 0.15 + (count / maxCount) * 0.85})` }}
+                        title={`${trend.topic} • ${year}: ${count} question(s)`}
+                      >
+                        {count > 0 ? count : ''}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,121 @@
 /**
  * API client for communicating with the backend
  */
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import {
+  AnalysisResponse,
+  AuthSession,
+  HealthStatus,
+  OfflineLedger,
+  Paper,
+  PaperDetail,
+  PaperUploadResponse,
+  Question,
+  ReviewedQuestion,
+  SavedSchedule,
+  ScheduleParameters,
+  SimilarQuestion,
+  StudySchedule,
+  TimerActionResult,
+  TimerConfig,
+  TimerState,
+  TimerStats,
+  TopicAnalysis,
+  User,
+} from '@/types';
+import { enqueueMutation, NewMutation } from '@/lib/offlineStore';
+import { parseResponse, Schema } from '@/lib/validation';
+import { AuthError, CancelledError, ContractError, isTransientError, isUnsentError, toApiError } from '@/lib/errors';
+import { getAuthSession, setAuthSession } from '@/lib/auth';
+import {
+  analysisResponseSchema,
+  authSessionSchema,
+  healthStatusSchema,
+  paperDetailSchema,
+  papersResponseSchema,
+  paperUploadResponseSchema,
+  predictionsResponseSchema,
+  questionsResponseSchema,
+  refreshedTokensSchema,
+  savedScheduleSchema,
+  schedulesResponseSchema,
+  similarQuestionsResponseSchema,
+  studyScheduleSchema,
+  timerActionResultSchema,
+  timerStateResponseSchema,
+  timerStatsResponseSchema,
+  topicsResponseSchema,
+  userSchema,
+} from '@/lib/schemas';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set on sign-in requests and on the retry made after a token refresh
+    skipAuthRefresh?: boolean;
+  }
+}
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
+// Thrown when a mutation could not reach the backend and was queued for replay
+export class QueuedMutationError extends Error {
+  constructor(description: string) {
+    super(`${description} will be sent when you are back online`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'QueuedMutationError';
+  }
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export interface RequestOptions {
+  // Aborts the request, e.g. when the component that made it unmounts
+  signal?: AbortSignal;
+  // Overrides the client's retry count for this request
+  retries?: number;
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  // Called with the fraction of the file sent so far, from 0 to 1
+  onProgress?: (fraction: number) => void;
+  // Reused across retries of the same file so the backend stores it only once
+  idempotencyKey?: string;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelay: 500, maxDelay: 4000 };
+
+// Exponential backoff with jitter, so parallel retries do not land together
+export const getRetryDelay = (attempt: number, policy: RetryPolicy) =>
+  Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt)) * (0.5 + Math.random() / 2);
+
+export const createIdempotencyKey = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+
 class ApiClient {
   private client: AxiosInstance;
+  // Bare instance for token refresh, so a failing refresh cannot trigger another one
+  private authClient: AxiosInstance;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private refreshing: Promise<void> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -16,83 +125,274 @@ class ApiClient {
         'Content-Type': 'application/json',
       },
     });
+    this.authClient = axios.create({ baseURL: API_URL, timeout: 30000 });
 
-    // Response interceptor for error handling
+    // Request interceptor: attach the signed-in user's access token
+    this.client.interceptors.request.use((config) => {
+      const session = getAuthSession();
+      if (session) {
+        config.headers.Authorization = `Bearer ${session.access_token}`;
+      }
+      return config;
+    });
+
+    // Response interceptor: refresh an expired token once, then map failures onto ApiError subclasses
     this.client.interceptors.response.use(
       (response) => response,
-      (error) => {
-        console.error('API Error:', error.response?.data || error.message);
-        return Promise.reject(error);
+      async (error) => {
+        const original = error.config;
+        if (error.response?.status === 401 && original && !original.skipAuthRefresh && getAuthSession()) {
+          try {
+            await this.refreshSession();
+          } catch (refreshError) {
+            console.error('Session refresh failed:', refreshError);
+            setAuthSession(null);
+            return Promise.reject(new AuthError());
+          }
+          return this.client.request({ ...original, skipAuthRefresh: true });
+        }
+
+        const apiError = toApiError(error);
+        if (!(apiError instanceof CancelledError)) {
+          console.error('API Error:', error.response?.data || error.message);
+        }
+        return Promise.reject(apiError);
       }
     );
   }
 
-  // Upload endpoints
-  async uploadPaper(file: File, year?: number, subject?: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    if (year) formData.append('year', year.toString());
-    if (subject) formData.append('subject', subject);
+  setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
 
-    return this.client.post('/api/upload/upload', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
+  // Concurrent 401s share a single refresh request
+  private refreshSession(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const session = getAuthSession();
+        if (!session?.refresh_token) throw new AuthError();
+
+        const response = await this.authClient.post('/api/auth/refresh', { refresh_token: session.refresh_token });
+        const tokens = this.validate(refreshedTokensSchema, response.data, 'POST /api/auth/refresh');
+        setAuthSession({
+          ...session,
+          access_token: tokens.access_token,
+          refresh_token: tokens.refresh_token ?? session.refresh_token,
+        });
+      })().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // Every response goes through here, so a backend that drifts from src/types fails loudly
+  private validate<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+    try {
+      return parseResponse(schema, data, endpoint);
+    } catch (error) {
+      if (error instanceof ContractError) console.error('API contract error:', error.message);
+      throw error;
+    }
   }
 
-  async getPapers() {
-    return this.client.get('/api/upload/papers');
+  // GETs are idempotent, so transient failures are retried with backoff
+  private async get<T>(
+    schema: Schema<T>,
+    url: string,
+    config: AxiosRequestConfig = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const retries = options.retries ?? this.retryPolicy.retries;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.get(url, { ...config, signal: options.signal });
+        return this.validate(schema, response.data, `GET ${url}`);
+      } catch (error) {
+        if (attempt >= retries || !isTransientError(error)) throw error;
+        await wait(getRetryDelay(attempt, this.retryPolicy), options.signal);
+      }
+    }
   }
 
-  async getPaper(paperId: string) {
-    return this.client.get(`/api/upload/papers/${paperId}`);
+  private async post<T>(schema: Schema<T>, url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
+    const response = await this.client.post(url, data, config);
+    return this.validate(schema, response.data, `POST ${url}`);
   }
 
-  // Analysis endpoints
-  async getAnalysis(topic?: string, topN: number = 20) {
-    return this.client.get('/api/analysis/analysis', {
-      params: { topic, top_n: topN },
+  // Sends a queued mutation; used to replay requests made while offline
+  async replayMutation(mutation: NewMutation, config?: AxiosRequestConfig) {
+    let data = mutation.data;
+    if (mutation.form) {
+      const form = new FormData();
+      mutation.form.forEach(([name, value]) => form.append(name, value));
+      data = form;
+    }
+
+    const headers: Record<string, string> = {};
+    if (mutation.form) headers['Content-Type'] = 'multipart/form-data';
+    if (mutation.idempotency_key) headers['Idempotency-Key'] = mutation.idempotency_key;
+
+    return this.client.request({
+      method: mutation.method,
+      url: mutation.url,
+      params: mutation.params,
+      data,
+      headers,
+      ...config,
     });
   }
 
-  async getQuestions(topic?: string, limit: number = 100) {
-    return this.client.get('/api/analysis/questions', {
-      params: { topic, limit },
+  // Only requests that never left the browser are queued; anything else may already have been applied
+  private async sendOrQueue(mutation: NewMutation, config?: AxiosRequestConfig) {
+    const keyed = { ...mutation, idempotency_key: mutation.idempotency_key ?? createIdempotencyKey() };
+    try {
+      return await this.replayMutation(keyed, config);
+    } catch (error) {
+      if (!isUnsentError(error)) throw error;
+      await enqueueMutation({ ...keyed, owner_id: getAuthSession()?.user.id });
+      throw new QueuedMutationError(mutation.description);
+    }
+  }
+
+  // Auth endpoints
+  async signIn(email: string, password: string): Promise<AuthSession> {
+    return this.post(authSessionSchema, '/api/auth/login', { email, password }, { skipAuthRefresh: true });
+  }
+
+  async signUp(name: string, email: string, password: string): Promise<AuthSession> {
+    return this.post(authSessionSchema, '/api/auth/register', { name, email, password }, { skipAuthRefresh: true });
+  }
+
+  async signOut(): Promise<void> {
+    const session = getAuthSession();
+    if (!session) return;
+    await this.client.post('/api/auth/logout', { refresh_token: session.refresh_token }, { skipAuthRefresh: true });
+  }
+
+  async getCurrentUser(options?: RequestOptions): Promise<User> {
+    return this.get(userSchema, '/api/auth/me', {}, options);
+  }
+
+  // Upload endpoints
+  async uploadPaper(
+    file: File,
+    year?: number,
+    subject?: string,
+    userId?: string,
+    options: UploadOptions = {}
+  ): Promise<PaperUploadResponse> {
+    const form: [string, string | Blob][] = [['file', file]];
+    if (year) form.push(['year', year.toString()]);
+    if (subject) form.push(['subject', subject]);
+    if (userId) form.push(['user_id', userId]);
+
+    const response = await this.sendOrQueue({
+      method: 'post',
+      url: '/api/upload/upload',
+      form,
+      description: `Upload of ${file.name}`,
+      idempotency_key: options.idempotencyKey,
+    }, {
+      signal: options.signal,
+      onUploadProgress: options.onProgress
+        ? (event) => options.onProgress!(event.total ? event.loaded / event.total : 0)
+        : undefined,
     });
+    return this.validate(paperUploadResponseSchema, response.data, 'POST /api/upload/upload');
+  }
+
+  async getPapers(options?: RequestOptions): Promise<Paper[]> {
+    return this.get(papersResponseSchema, '/api/upload/papers', {}, options);
   }
 
-  async getTopics() {
-    return this.client.get('/api/analysis/topics');
+  async getPaper(paperId: string, options?: RequestOptions): Promise<PaperDetail> {
+    return this.get(paperDetailSchema, `/api/upload/papers/${paperId}`, {}, options);
   }
 
-  async findSimilarQuestions(question: string, threshold: number = 0.75) {
-    return this.client.get('/api/analysis/similar-questions', {
-      params: { question, threshold },
+  // Replaces the paper's questions; the backend re-runs topic analysis on the corrected set
+  async updatePaperQuestions(paperId: string, questions: ReviewedQuestion[]): Promise<PaperDetail> {
+    const url = `/api/upload/papers/${paperId}/questions`;
+    const response = await this.sendOrQueue({
+      method: 'put',
+      url,
+      data: { questions },
+      description: 'Question corrections',
     });
+    return this.validate(paperDetailSchema, response.data, `PUT ${url}`);
+  }
+
+  // Analysis endpoints; leaving `subject` out covers every subject
+  async getAnalysis(
+    subject?: string,
+    topic?: string,
+    topN: number = 20,
+    options?: RequestOptions
+  ): Promise<AnalysisResponse> {
+    return this.get(analysisResponseSchema, '/api/analysis/analysis', {
+      params: { subject, topic, top_n: topN },
+    }, options);
+  }
+
+  async getQuestions(
+    subject?: string,
+    topic?: string,
+    limit: number = 100,
+    options?: RequestOptions
+  ): Promise<Question[]> {
+    return this.get(questionsResponseSchema, '/api/analysis/questions', {
+      params: { subject, topic, limit },
+    }, options);
+  }
+
+  async getTopics(subject?: string, options?: RequestOptions): Promise<TopicAnalysis[]> {
+    return this.get(topicsResponseSchema, '/api/analysis/topics', {
+      params: { subject },
+    }, options);
+  }
+
+  async findSimilarQuestions(
+    subject: string | undefined,
+    question: string,
+    threshold: number = 0.75,
+    options?: RequestOptions
+  ): Promise<SimilarQuestion[]> {
+    return this.get(similarQuestionsResponseSchema, '/api/analysis/similar-questions', {
+      params: { subject, question, threshold },
+    }, options);
   }
 
   // Schedule endpoints
-  async generateSchedule(data: {
-    available_hours: number;
-    study_duration?: number;
-    break_duration?: number;
-    start_date?: string;
-    exam_date?: string;
-    topics_to_include?: string[];
-  }) {
-    return this.client.post('/api/schedule/generate', data);
-  }
-
-  async getSchedules(userId: string = 'default_user') {
-    return this.client.get('/api/schedule/schedules', {
-      params: { user_id: userId },
+  async generateSchedule(data: ScheduleParameters): Promise<StudySchedule> {
+    return this.post(studyScheduleSchema, '/api/schedule/generate', data);
+  }
+
+  // Stores a schedule assembled in the browser, such as an all-subjects plan, in the history
+  async saveSchedule(schedule: StudySchedule, parameters: ScheduleParameters): Promise<SavedSchedule> {
+    return this.post(savedScheduleSchema, '/api/schedule/schedules', { parameters, schedule });
+  }
+
+  // Replaces a saved schedule's sessions, e.g. after a rebalance
+  async updateSchedule(scheduleId: string, schedule: StudySchedule): Promise<SavedSchedule> {
+    const url = `/api/schedule/schedules/${scheduleId}`;
+    const response = await this.sendOrQueue({
+      method: 'put',
+      url,
+      data: { schedule },
+      description: 'Rebalanced schedule',
     });
+    return this.validate(savedScheduleSchema, response.data, `PUT ${url}`);
   }
 
-  async predictQuestions(topN: number = 20) {
-    return this.client.post('/api/schedule/predict-questions', null, {
-      params: { top_n: topN },
+  async getSchedules(userId: string, subject?: string, options?: RequestOptions): Promise<SavedSchedule[]> {
+    return this.get(schedulesResponseSchema, '/api/schedule/schedules', {
+      params: { user_id: userId, subject },
+    }, options);
+  }
+
+  async predictQuestions(subject?: string, topN: number = 20): Promise<Question[]> {
+    return this.post(predictionsResponseSchema, '/api/schedule/predict-questions', null, {
+      params: { subject, top_n: topN },
     });
   }
 
@@ -103,8 +403,8 @@ class ApiClient {
     breakDuration: number = 5,
     longBreakDuration: number = 15,
     sessionsUntilLongBreak: number = 4
-  ) {
-    return this.client.post('/api/timer/create', null, {
+  ): Promise<TimerActionResult> {
+    return this.post(timerActionResultSchema, '/api/timer/create', null, {
       params: {
         user_id: userId,
         study_duration: studyDuration,
@@ -115,39 +415,53 @@ class ApiClient {
     });
   }
 
-  async startTimer(userId: string, topic?: string) {
-    return this.client.post('/api/timer/start', null, {
+  async startTimer(userId: string, topic?: string): Promise<TimerActionResult> {
+    return this.post(timerActionResultSchema, '/api/timer/start', null, {
       params: { user_id: userId, topic },
     });
   }
 
-  async pauseTimer(userId: string) {
-    return this.client.post('/api/timer/pause', null, {
+  async pauseTimer(userId: string): Promise<TimerActionResult> {
+    return this.post(timerActionResultSchema, '/api/timer/pause', null, {
       params: { user_id: userId },
     });
   }
 
-  async resetTimer(userId: string) {
-    return this.client.post('/api/timer/reset', null, {
+  async resetTimer(userId: string): Promise<TimerActionResult> {
+    return this.post(timerActionResultSchema, '/api/timer/reset', null, {
       params: { user_id: userId },
     });
   }
 
-  async getTimerState(userId: string) {
-    return this.client.get('/api/timer/state', {
+  // Hands a timer that ran in the browser back to the backend, keeping its phase and remaining time
+  async restoreTimer(userId: string, config: TimerConfig, state: TimerState): Promise<TimerActionResult> {
+    return this.post(timerActionResultSchema, '/api/timer/restore', { config, state }, {
       params: { user_id: userId },
     });
   }
 
-  async getTimerStats(userId: string) {
-    return this.client.get('/api/timer/stats', {
+  // Reports focus and break time counted in the browser while the timer server was unreachable
+  async recordOfflineTime(userId: string, ledger: OfflineLedger): Promise<TimerActionResult> {
+    return this.post(timerActionResultSchema, '/api/timer/offline', ledger, {
       params: { user_id: userId },
     });
   }
 
-  // Health check
-  async healthCheck() {
-    return this.client.get('/health');
+  async getTimerState(userId: string, options?: RequestOptions): Promise<TimerState> {
+    return this.get(timerStateResponseSchema, '/api/timer/state', {
+      params: { user_id: userId },
+    }, options);
+  }
+
+  async getTimerStats(userId: string, options?: RequestOptions): Promise<TimerStats> {
+    return this.get(timerStatsResponseSchema, '/api/timer/stats', {
+      params: { user_id: userId },
+    }, options);
+  }
+
+  // Health check; not retried, callers poll it themselves
+  async healthCheck(options?: RequestOptions): Promise<HealthStatus> {
+    return this.get(healthStatusSchema, '/health', {}, { retries: 0, ...options });
   }
 }
 
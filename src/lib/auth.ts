@@ -0,0 +1,36 @@
+/**
+ * Persistence of the signed-in session, shared by the API client and AuthProvider
+ */
+import { AuthSession } from '@/types';
+import { readJSON, removeKey, writeJSON } from '@/lib/storage';
+
+const SESSION_KEY = 'auth-session';
+
+type SessionListener = (session: AuthSession | null) => void;
+const sessionListeners = new Set<SessionListener>();
+
+export const getAuthSession = (): AuthSession | null => readJSON<AuthSession | null>(SESSION_KEY, null);
+
+export const setAuthSession = (session: AuthSession | null): void => {
+  if (session) {
+    writeJSON(SESSION_KEY, session);
+  } else {
+    removeKey(SESSION_KEY);
+  }
+  sessionListeners.forEach(listener => listener(session));
+};
+
+// Notified on sign-in, token refresh and sign-out, including those made in other tabs
+export const subscribeToAuthSession = (listener: SessionListener): (() => void) => {
+  sessionListeners.add(listener);
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SESSION_KEY) listener(getAuthSession());
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    sessionListeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
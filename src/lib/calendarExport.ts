@@ -0,0 +1,133 @@
+/**
+ * iCalendar (.ics) export of study schedules
+ */
+import { addMinutes, format, setHours, startOfDay } from 'date-fns';
+import { StudySchedule, StudySession } from '@/types';
+import { getScheduleKey, getSessionOriginKey } from '@/lib/progress';
+import { getDayDate } from '@/lib/schedule';
+
+export interface CalendarExportOptions {
+  // Hour of the day (0-23) at which each day's first session starts
+  startHour: number;
+}
+
+const PRODUCT_ID = '-//AI Study Planner//Study Schedule//EN';
+const UID_DOMAIN = 'ai-study-planner';
+const MAX_LINE_OCTETS = 75;
+// For schedules saved before the break length was kept with them
+const DEFAULT_BREAK_MINUTES = 5;
+
+// Floating local time, so events land at the chosen hour in whatever time zone the calendar uses
+const formatLocal = (date: Date) => format(date, "yyyyMMdd'T'HHmmss");
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits lines to 75 octets; longer ones continue on lines starting with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  Array.from(line).forEach(char => {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  });
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Derived from the schedule key and the slot the session was first planned in, so re-importing
+ * a rebalanced schedule moves the existing events instead of leaving them at their old times.
+ */
+export const getSessionUid = (schedule: StudySchedule, session: StudySession): string =>
+  `${getScheduleKey(schedule)}-${getSessionOriginKey(session)}`.replace(/[^A-Za-z0-9-]/g, '-') + `@${UID_DOMAIN}`;
+
+const describeSession = (session: StudySession): string => {
+  const lines = [`Topic: ${session.topic}`, `Importance: ${(session.importance_score * 100).toFixed(0)}%`];
+  if (session.questions_to_cover.length > 0) {
+    lines.push('', 'Questions to cover:', ...session.questions_to_cover.map(q => `- ${q}`));
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Builds the calendar. Each day's sessions run back to back from the start hour, separated by
+ * the break the schedule was generated with. Returns null when the schedule has no start date
+ * to anchor the days to.
+ */
+export const buildIcs = (
+  schedule: StudySchedule,
+  options: CalendarExportOptions,
+  now: Date = new Date()
+): string | null => {
+  if (!schedule.start_date) return null;
+
+  // A later export must carry a higher SEQUENCE for calendars to accept it as an update
+  const sequence = Math.floor(now.getTime() / 1000);
+  const stamp = formatUtc(now);
+  const breakMinutes = schedule.break_duration ?? DEFAULT_BREAK_MINUTES;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Study Plan',
+  ];
+
+  const days = Array.from(new Set(schedule.sessions.map(s => s.day))).sort((a, b) => a - b);
+  days.forEach(day => {
+    const date = getDayDate(schedule, day);
+    if (!date) return;
+    let start = setHours(startOfDay(date), options.startHour);
+
+    schedule.sessions
+      .filter(s => s.day === day)
+      .sort((a, b) => a.session_number - b.session_number)
+      .forEach(session => {
+        const end = addMinutes(start, session.duration_minutes);
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${getSessionUid(schedule, session)}`,
+          `DTSTAMP:${stamp}`,
+          `SEQUENCE:${sequence}`,
+          `DTSTART:${formatLocal(start)}`,
+          `DTEND:${formatLocal(end)}`,
+          `SUMMARY:${escapeText(`Study: ${session.topic}`)}`,
+          `DESCRIPTION:${escapeText(describeSession(session))}`,
+          'END:VEVENT'
+        );
+        start = addMinutes(end, breakMinutes);
+      });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Long enough for the browser to start the download before the object URL goes away
+const REVOKE_DELAY = 1000;
+
+export const downloadIcs = (contents: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
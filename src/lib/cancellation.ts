@@ -0,0 +1,24 @@
+/**
+ * Cancels a component's in-flight requests when it unmounts
+ */
+import { useEffect, useRef } from 'react';
+
+/**
+ * Returns a getter for an AbortSignal that is aborted on unmount. Read the signal when
+ * the request is made: Strict Mode remounts get a fresh controller.
+ */
+export const useAbortOnUnmount = (): (() => AbortSignal) => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return () => {
+    if (!controllerRef.current) controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  };
+};
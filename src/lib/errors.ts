@@ -0,0 +1,167 @@
+/**
+ * Typed errors for backend requests and the user-facing messages shared by all components
+ */
+import axios from 'axios';
+import toast from 'react-hot-toast';
+
+export class ApiError extends Error {
+  constructor(message: string, public status?: number, public detail?: string) {
+    super(message);
+    // Keeps instanceof working for subclasses when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ApiError';
+  }
+}
+
+// The backend could not be reached at all
+export class NetworkError extends ApiError {
+  constructor() {
+    super('Cannot reach the server');
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor() {
+    super('The server took too long to respond');
+    this.name = 'TimeoutError';
+  }
+}
+
+// The request was aborted by the caller, usually because the component unmounted
+export class CancelledError extends ApiError {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+// The backend rejected the request as invalid (400/422)
+export class ValidationError extends ApiError {
+  constructor(status: number, detail?: string) {
+    super(detail || 'The request was rejected as invalid', status, detail);
+    this.name = 'ValidationError';
+  }
+}
+
+// The request needs a signed-in user and the session could not be refreshed
+export class AuthError extends ApiError {
+  constructor(detail?: string) {
+    super(detail || 'Not signed in', 401, detail);
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(detail?: string) {
+    super(detail || 'Not found', 404, detail);
+    this.name = 'NotFoundError';
+  }
+}
+
+// Analysis endpoints answer 400 until at least one paper has been uploaded
+export class EmptyDatasetError extends ApiError {
+  constructor(detail?: string) {
+    super(detail || 'No data available', 400, detail);
+    this.name = 'EmptyDatasetError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(status: number, detail?: string) {
+    super(detail || `Server error (${status})`, status, detail);
+    this.name = 'ServerError';
+  }
+}
+
+// Thrown when a response does not match the shape the frontend was built against
+export class ContractError extends ApiError {
+  constructor(
+    public endpoint: string,
+    public path: string,
+    public expected: string,
+    public received: unknown
+  ) {
+    super(`Unexpected response from ${endpoint}: ${path || 'body'} should be ${expected}, got ${describeValue(received)}`);
+    this.name = 'ContractError';
+  }
+}
+
+const describeValue = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value;
+};
+
+// Only "nothing to analyse yet" wording; other 400s that mention uploads stay validation errors
+const EMPTY_DATASET_PATTERN = /no (data|questions|papers|topics)|upload (some )?(exam )?papers first/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const getDetail = (data: unknown): string | undefined => {
+  if (!isRecord(data)) return undefined;
+  const { detail } = data;
+  if (typeof detail === 'string') return detail;
+  // FastAPI reports request validation failures as a list of issues
+  if (Array.isArray(detail)) {
+    return detail
+      .map(issue => (isRecord(issue) && typeof issue.msg === 'string' ? issue.msg : ''))
+      .filter(Boolean)
+      .join('; ');
+  }
+  return undefined;
+};
+
+// Maps an axios failure onto the ApiError hierarchy; other errors are returned unchanged
+export const toApiError = (error: unknown): Error => {
+  if (error instanceof ApiError) return error;
+  if (axios.isCancel(error)) return new CancelledError();
+  if (!axios.isAxiosError(error)) return error instanceof Error ? error : new Error(String(error));
+  if (!error.response) {
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? new TimeoutError() : new NetworkError();
+  }
+
+  const { status, data } = error.response;
+  const detail = getDetail(data);
+  if (status === 401) return new AuthError(detail);
+  if (status === 404) return new NotFoundError(detail);
+  if (status === 400 && EMPTY_DATASET_PATTERN.test(detail || '')) return new EmptyDatasetError(detail);
+  if (status === 408 || status === 504) return new TimeoutError();
+  if (status >= 500) return new ServerError(status, detail);
+  if (status === 400 || status === 422) return new ValidationError(status, detail);
+  return new ApiError(detail || error.message, status, detail);
+};
+
+// Offline-style failures where queueing or falling back locally makes sense
+export const isNetworkError = (error: unknown) =>
+  error instanceof NetworkError || error instanceof TimeoutError;
+
+// The request never left the browser, so queueing it for later cannot create a duplicate.
+// A timeout may have reached the backend, so it only counts when the browser reports being offline.
+export const isUnsentError = (error: unknown) =>
+  error instanceof NetworkError ||
+  (isNetworkError(error) && typeof navigator !== 'undefined' && navigator.onLine === false);
+
+// Failures worth retrying for idempotent requests
+export const isTransientError = (error: unknown) =>
+  isNetworkError(error) || (error instanceof ServerError && (error.status === 502 || error.status === 503));
+
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof NetworkError) return 'Cannot reach the server. Check your connection and try again.';
+  if (error instanceof TimeoutError) return 'The server took too long to respond. Please try again.';
+  if (error instanceof EmptyDatasetError) return 'No data available. Please upload exam papers first.';
+  if (error instanceof AuthError) return 'Your session has expired. Please sign in again.';
+  if (error instanceof NotFoundError) return error.detail || 'The requested item no longer exists.';
+  if (error instanceof ValidationError) return error.detail || fallback;
+  if (error instanceof ServerError) return 'The server ran into a problem. Please try again shortly.';
+  if (error instanceof ContractError) return 'The server sent data this version of the app does not understand.';
+  if (error instanceof ApiError) return error.detail || fallback;
+  return fallback;
+};
+
+// Shows the shared message for an error; cancelled requests stay silent
+export const showErrorToast = (error: unknown, fallback: string, options?: { id?: string }) => {
+  if (error instanceof CancelledError) return;
+  toast.error(getErrorMessage(error, fallback), options);
+};
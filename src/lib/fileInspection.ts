@@ -0,0 +1,72 @@
+/**
+ * Pre-upload checks on selected files: content hashes and a quick look inside PDFs
+ */
+import { ErrorCode, FileRejection } from 'react-dropzone';
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export interface FileInspection {
+  hash: string;
+  // null when the file is not a PDF or its page tree is compressed out of sight
+  pageCount: number | null;
+  needsOcr: boolean;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+// crypto.subtle only exists in secure contexts, so plain-http deployments fall back to file metadata
+const hashFile = async (bytes: ArrayBuffer, file: File): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return `${file.name}:${file.size}:${file.lastModified}`;
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+/**
+ * Reads page objects and resources from the uncompressed parts of a PDF. Pages that carry
+ * images but no fonts have no text layer, which is what a scan looks like.
+ */
+const inspectPdf = (bytes: ArrayBuffer) => {
+  const text = new TextDecoder('latin1').decode(bytes);
+
+  let pageCount = countMatches(text, /\/Type\s*\/Page(?![a-zA-Z])/g);
+  if (pageCount === 0) {
+    const counts = Array.from(text.matchAll(/\/Type\s*\/Pages[^>]*?\/Count\s+(\d+)/g), match => Number(match[1]));
+    pageCount = counts.length > 0 ? Math.max(...counts) : 0;
+  }
+
+  const hasImages = /\/Subtype\s*\/Image/.test(text);
+  const hasFonts = /\/Font\b/.test(text);
+
+  return {
+    pageCount: pageCount > 0 ? pageCount : null,
+    needsOcr: pageCount > 0 && hasImages && !hasFonts,
+  };
+};
+
+export const inspectFile = async (file: File): Promise<FileInspection> => {
+  const bytes = await file.arrayBuffer();
+  const hash = await hashFile(bytes, file);
+
+  if (isPdf(file)) {
+    return { hash, ...inspectPdf(bytes) };
+  }
+  // Photos of papers always go through OCR
+  return { hash, pageCount: null, needsOcr: file.type.startsWith('image/') };
+};
+
+const REJECTION_MESSAGES: Record<string, string> = {
+  [ErrorCode.FileTooLarge]: `Larger than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+  [ErrorCode.FileInvalidType]: 'Not a PDF, PNG, JPG or TXT file',
+  [ErrorCode.TooManyFiles]: 'Too many files selected at once',
+};
+
+export const describeRejection = (rejection: FileRejection): string[] =>
+  rejection.errors.map(error => REJECTION_MESSAGES[error.code] || error.message);
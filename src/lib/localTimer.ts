@@ -0,0 +1,210 @@
+/**
+ * In-browser Pomodoro engine used when the timer backend or its WebSocket is unreachable.
+ * It follows the same TimerState/TimerStats contract as the /api/timer endpoints.
+ */
+import { OfflineLedger, TimerConfig, TimerState, TimerStats } from '@/types';
+import { DEFAULT_TIMER_CONFIG, getPhaseSeconds, isLongBreak } from '@/lib/timerConfig';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+interface EngineSnapshot {
+  config: TimerConfig;
+  state: TimerState;
+  // Epoch ms at which the running phase ends; null while paused
+  phase_ends_at: number | null;
+  // Time not yet reported to the backend, shown on top of the backend's stats
+  ledger: OfflineLedger;
+}
+
+export type TimerListener = (state: TimerState, notification?: string) => void;
+
+const EMPTY_LEDGER: OfflineLedger = { sessions_completed: 0, study_minutes: 0, break_minutes: 0 };
+const TICK_INTERVAL = 1000;
+
+const freshState = (config: TimerConfig, currentSession: number = 0, topic?: string): TimerState => ({
+  is_running: false,
+  is_break: false,
+  current_session: currentSession,
+  time_remaining: config.study_duration * 60,
+  topic,
+});
+
+export const isLedgerEmpty = (ledger: OfflineLedger) =>
+  ledger.sessions_completed === 0 && ledger.study_minutes === 0 && ledger.break_minutes === 0;
+
+const formatRemaining = (seconds: number) =>
+  `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+export const mergeStats = (stats: TimerStats | null, ledger: OfflineLedger, state: TimerState | null): TimerStats => ({
+  sessions_completed: (stats?.sessions_completed || 0) + ledger.sessions_completed,
+  total_study_minutes: (stats?.total_study_minutes || 0) + Math.round(ledger.study_minutes),
+  total_break_minutes: (stats?.total_break_minutes || 0) + Math.round(ledger.break_minutes),
+  current_topic: state?.topic ?? stats?.current_topic,
+  is_break: state?.is_break ?? stats?.is_break ?? false,
+  time_remaining: state ? formatRemaining(state.time_remaining) : stats?.time_remaining || '00:00',
+});
+
+export class LocalTimerEngine {
+  private snapshot: EngineSnapshot;
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private userId: string, private listener: TimerListener) {
+    this.snapshot = readJSON<EngineSnapshot>(this.storageKey, {
+      config: DEFAULT_TIMER_CONFIG,
+      state: freshState(DEFAULT_TIMER_CONFIG),
+      phase_ends_at: null,
+      ledger: EMPTY_LEDGER,
+    });
+    if (this.snapshot.phase_ends_at) this.startTicking();
+  }
+
+  private get storageKey() {
+    return `local-timer:${this.userId}`;
+  }
+
+  // Equivalent of createTimer: applies a configuration and resets the countdown
+  configure(config: TimerConfig) {
+    this.recordPartialFocus();
+    this.stopTicking();
+    this.update({ config, state: freshState(config, 0, this.snapshot.state.topic), phase_ends_at: null });
+  }
+
+  // Continues counting down from a state last reported by the backend
+  adopt(state: TimerState, config: TimerConfig) {
+    this.stopTicking();
+    this.update({
+      config,
+      state: { ...state },
+      phase_ends_at: state.is_running ? Date.now() + state.time_remaining * 1000 : null,
+    });
+    if (state.is_running) this.startTicking();
+  }
+
+  start(topic?: string) {
+    const state = this.getState();
+    if (state.is_running) return;
+    this.update({
+      state: { ...state, is_running: true, topic: topic ?? state.topic },
+      phase_ends_at: Date.now() + state.time_remaining * 1000,
+    });
+    this.startTicking();
+  }
+
+  pause() {
+    this.stopTicking();
+    this.update({ state: { ...this.getState(), is_running: false }, phase_ends_at: null });
+  }
+
+  reset() {
+    this.recordPartialFocus();
+    this.stopTicking();
+    this.update({ state: freshState(this.snapshot.config, 0, this.snapshot.state.topic), phase_ends_at: null });
+  }
+
+  getState(): TimerState {
+    const { state, phase_ends_at } = this.snapshot;
+    if (!phase_ends_at) return state;
+    return { ...state, time_remaining: Math.max(Math.ceil((phase_ends_at - Date.now()) / 1000), 0) };
+  }
+
+  getLedger(): OfflineLedger {
+    return this.snapshot.ledger;
+  }
+
+  // Removes time the backend has acknowledged, keeping anything counted since it was sent
+  settleLedger(reported: OfflineLedger) {
+    const { ledger } = this.snapshot;
+    this.snapshot = {
+      ...this.snapshot,
+      ledger: {
+        sessions_completed: Math.max(0, ledger.sessions_completed - reported.sessions_completed),
+        study_minutes: Math.max(0, ledger.study_minutes - reported.study_minutes),
+        break_minutes: Math.max(0, ledger.break_minutes - reported.break_minutes),
+      },
+    };
+    writeJSON(this.storageKey, this.snapshot);
+  }
+
+  isMidPhase(): boolean {
+    const state = this.getState();
+    return state.is_running && state.time_remaining < getPhaseSeconds(state, this.snapshot.config);
+  }
+
+  dispose() {
+    this.stopTicking();
+  }
+
+  private tick() {
+    const state = this.getState();
+    if (state.time_remaining > 0) {
+      this.listener(state);
+      return;
+    }
+    this.completePhase(state);
+  }
+
+  private completePhase(state: TimerState) {
+    const { config, ledger } = this.snapshot;
+
+    if (!state.is_break) {
+      const breakState: TimerState = {
+        ...state,
+        is_break: true,
+        current_session: state.current_session + 1,
+      };
+      breakState.time_remaining = getPhaseSeconds(breakState, config);
+      this.update({
+        state: breakState,
+        phase_ends_at: Date.now() + breakState.time_remaining * 1000,
+        ledger: {
+          ...ledger,
+          sessions_completed: ledger.sessions_completed + 1,
+          study_minutes: ledger.study_minutes + config.study_duration,
+        },
+      }, isLongBreak(breakState, config)
+        ? 'Great work! Time for a long break.'
+        : 'Focus session complete! Time for a short break.');
+      return;
+    }
+
+    // Like the backend, wait for the user to start the next focus session
+    this.stopTicking();
+    this.update({
+      state: { ...freshState(config, state.current_session, state.topic) },
+      phase_ends_at: null,
+      ledger: {
+        ...ledger,
+        break_minutes: ledger.break_minutes + getPhaseSeconds(state, config) / 60,
+      },
+    }, 'Break is over. Ready to focus?');
+  }
+
+  // Keeps focus time from an interrupted session instead of discarding it
+  private recordPartialFocus() {
+    const state = this.getState();
+    if (state.is_break) return;
+    const elapsedSeconds = getPhaseSeconds(state, this.snapshot.config) - state.time_remaining;
+    if (elapsedSeconds <= 0) return;
+    this.snapshot.ledger = {
+      ...this.snapshot.ledger,
+      study_minutes: this.snapshot.ledger.study_minutes + elapsedSeconds / 60,
+    };
+  }
+
+  private update(changes: Partial<EngineSnapshot>, notification?: string) {
+    this.snapshot = { ...this.snapshot, ...changes };
+    writeJSON(this.storageKey, this.snapshot);
+    this.listener(this.getState(), notification);
+  }
+
+  private startTicking() {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.tick(), TICK_INTERVAL);
+  }
+
+  private stopTicking() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+}
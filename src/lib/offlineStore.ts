@@ -0,0 +1,182 @@
+/**
+ * IndexedDB persistence for cached API data and mutations made while offline
+ */
+
+const DB_NAME = 'ai-study-planner';
+const DB_VERSION = 2;
+const CACHE_STORE = 'cache';
+const MUTATION_STORE = 'mutations';
+
+export interface CacheEntry<T> {
+  value: T;
+  updated_at: string;
+}
+
+type FormField = [string, string | Blob];
+
+export interface QueuedMutation {
+  id?: number;
+  method: 'post' | 'put' | 'patch' | 'delete';
+  url: string;
+  params?: Record<string, unknown>;
+  // FormData cannot be stored directly, so multipart bodies are kept as entries
+  data?: unknown;
+  form?: FormField[];
+  // Sent as the Idempotency-Key header on every attempt, so the backend can drop repeats
+  idempotency_key?: string;
+  // The user who made the change; it is only ever replayed with that user's token
+  owner_id?: string;
+  description: string;
+  queued_at: string;
+}
+
+export type NewMutation = Omit<QueuedMutation, 'id' | 'queued_at'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isSupported = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        } else if (event.oldVersion < 2) {
+          // Version 1 cached raw responses; from version 2 on the cache holds validated data
+          request.transaction?.objectStore(CACHE_STORE).clear();
+        }
+        if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+          db.createObjectStore(MUTATION_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Cache
+
+export const getCached = async <T>(key: string): Promise<CacheEntry<T> | undefined> => {
+  if (!isSupported()) return undefined;
+  try {
+    return await runRequest<CacheEntry<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.error(`Failed to read cached ${key}:`, error);
+    return undefined;
+  }
+};
+
+export const setCached = async <T>(key: string, value: T): Promise<void> => {
+  if (!isSupported()) return;
+  try {
+    const entry: CacheEntry<T> = { value, updated_at: new Date().toISOString() };
+    await runRequest(CACHE_STORE, 'readwrite', store => store.put(entry, key));
+  } catch (error) {
+    console.error(`Failed to cache ${key}:`, error);
+  }
+};
+
+// Cached data belongs to the signed-in user, so it is dropped on sign-out
+export const clearCache = async (): Promise<void> => {
+  if (!isSupported()) return;
+  try {
+    await runRequest(CACHE_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Failed to clear cache:', error);
+  }
+};
+
+// Mutation queue
+
+type QueueListener = (pending: number) => void;
+const queueListeners = new Set<QueueListener>();
+
+const notifyQueueListeners = async () => {
+  const pending = (await getQueuedMutations()).length;
+  queueListeners.forEach(listener => listener(pending));
+};
+
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  queueListeners.add(listener);
+  notifyQueueListeners();
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+export const enqueueMutation = async (mutation: NewMutation): Promise<void> => {
+  if (!isSupported()) throw new Error('Offline storage is not available');
+  await runRequest(MUTATION_STORE, 'readwrite', store =>
+    store.add({ ...mutation, queued_at: new Date().toISOString() })
+  );
+  notifyQueueListeners();
+};
+
+export const getQueuedMutations = async (): Promise<QueuedMutation[]> => {
+  if (!isSupported()) return [];
+  try {
+    return await runRequest<QueuedMutation[]>(MUTATION_STORE, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error('Failed to read queued mutations:', error);
+    return [];
+  }
+};
+
+export const removeQueuedMutation = async (id: number): Promise<void> => {
+  await runRequest(MUTATION_STORE, 'readwrite', store => store.delete(id));
+  notifyQueueListeners();
+};
+
+// Drops changes queued by anyone but the user signing in, including untagged ones
+export const discardForeignMutations = async (ownerId: string): Promise<void> => {
+  const foreign = (await getQueuedMutations()).filter(mutation => mutation.owner_id !== ownerId);
+  try {
+    for (const mutation of foreign) {
+      await runRequest(MUTATION_STORE, 'readwrite', store => store.delete(mutation.id as number));
+    }
+  } catch (error) {
+    console.error('Failed to discard queued mutations:', error);
+  }
+  if (foreign.length > 0) notifyQueueListeners();
+};
+
+// Serves cached data straight away, then refreshes it from the network.
+// Network failures are swallowed when a cached copy was already served.
+export const staleWhileRevalidate = async <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  onData: (data: T, fromCache: boolean) => void
+): Promise<void> => {
+  const cached = await getCached<T>(key);
+  if (cached) onData(cached.value, true);
+
+  try {
+    const fresh = await fetcher();
+    onData(fresh, false);
+    await setCached(key, fresh);
+  } catch (error) {
+    if (!cached) throw error;
+    console.warn(`Serving cached ${key} from ${cached.updated_at}:`, error);
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Self-quiz marks and quiz building for the practice tab
+ */
+import { Confidence, PracticeMark, Question } from '@/types';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+export type PracticeLog = Record<string, PracticeMark>;
+
+export type QuizSource = 'topic' | 'years' | 'predicted';
+
+export interface ConfidenceCounts {
+  confident: number;
+  shaky: number;
+  unknown: number;
+  unmarked: number;
+}
+
+// Weakest first; questions never practised sit between shaky and confident ones
+const CONFIDENCE_RANK: Record<Confidence | 'unmarked', number> = {
+  unknown: 0,
+  shaky: 1,
+  unmarked: 2,
+  confident: 3,
+};
+
+/**
+ * Marks follow the question text rather than its id, so a question that reappears in
+ * another year or among the predictions shares one record.
+ */
+export const getQuestionKey = (question: Pick<Question, 'text'>): string =>
+  question.text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const storageKey = (userId: string) => `practice-marks:${userId}`;
+
+export const loadPracticeLog = (userId: string): PracticeLog =>
+  readJSON<PracticeLog>(storageKey(userId), {});
+
+export const recordPracticeMark = (
+  userId: string,
+  question: Question,
+  confidence: Confidence,
+  note?: string
+): PracticeLog => {
+  const log = loadPracticeLog(userId);
+  const key = getQuestionKey(question);
+  const next = {
+    ...log,
+    [key]: {
+      confidence,
+      // Grading without a note (e.g. from the review queue) keeps the one already written
+      note: note === undefined ? log[key]?.note : note.trim() || undefined,
+      attempts: (log[key]?.attempts || 0) + 1,
+      marked_at: new Date().toISOString(),
+    },
+  };
+  writeJSON(storageKey(userId), next);
+  return next;
+};
+
+export const getConfidence = (log: PracticeLog, question: Question): Confidence | 'unmarked' =>
+  log[getQuestionKey(question)]?.confidence || 'unmarked';
+
+export const countByConfidence = (log: PracticeLog, questions: Question[]): ConfidenceCounts =>
+  questions.reduce<ConfidenceCounts>(
+    (counts, question) => {
+      counts[getConfidence(log, question)] += 1;
+      return counts;
+    },
+    { confident: 0, shaky: 0, unknown: 0, unmarked: 0 }
+  );
+
+// The same question extracted from several papers is only asked once
+const uniqueQuestions = (questions: Question[]): Question[] => {
+  const seen = new Set<string>();
+  return questions.filter(question => {
+    const key = getQuestionKey(question);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Orders a quiz so weak questions resurface first. Within a confidence level the question
+ * marked longest ago comes first, then the more important one.
+ */
+export const orderForPractice = (questions: Question[], log: PracticeLog): Question[] =>
+  uniqueQuestions(questions).sort((a, b) => {
+    const rank = CONFIDENCE_RANK[getConfidence(log, a)] - CONFIDENCE_RANK[getConfidence(log, b)];
+    if (rank !== 0) return rank;
+    const markedA = log[getQuestionKey(a)]?.marked_at || '';
+    const markedB = log[getQuestionKey(b)]?.marked_at || '';
+    if (markedA !== markedB) return markedA < markedB ? -1 : 1;
+    return b.importance_score - a.importance_score;
+  });
+
+export const filterByTopic = (questions: Question[], topic: string): Question[] =>
+  questions.filter(question => (question.topic || 'General') === topic);
+
+export const filterByYears = (questions: Question[], fromYear: number, toYear: number): Question[] =>
+  questions.filter(question => question.year !== undefined && question.year >= fromYear && question.year <= toYear);
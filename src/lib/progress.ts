@@ -0,0 +1,138 @@
+/**
+ * Session progress tracking and plan adherence for generated schedules
+ */
+import { differenceInCalendarDays, parseISO, startOfDay, addDays } from 'date-fns';
+import { SessionProgress, SessionStatus, StudySchedule, StudySession } from '@/types';
+import { getDayDate, getScheduleContentKey } from '@/lib/schedule';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+export type ProgressLog = Record<string, SessionProgress>;
+
+export interface TopicProgress {
+  topic: string;
+  planned_hours: number;
+  actual_hours: number;
+}
+
+export interface ProgressSummary {
+  completed: number;
+  skipped: number;
+  partial: number;
+  percentComplete: number;
+  topics: TopicProgress[];
+  overdueSessions: number;
+  slipDays: number;
+  projectedFinish: Date | null;
+  // Negative when the projected finish falls after the exam
+  daysBeforeExam: number | null;
+}
+
+// Schedules the backend gave no id fall back to a pinned or content-derived local key
+export const getScheduleKey = (schedule: StudySchedule): string =>
+  schedule.id || schedule.local_key || getScheduleContentKey(schedule);
+
+export const getSessionKey = (session: Pick<StudySession, 'day' | 'session_number'>): string =>
+  `${session.day}-${session.session_number}`;
+
+// Survives rebalancing, unlike the session key, which follows the session's current slot
+export const getSessionOriginKey = (session: StudySession): string =>
+  session.origin_key || getSessionKey(session);
+
+const storageKey = (schedule: StudySchedule) => `schedule-progress:${getScheduleKey(schedule)}`;
+
+// Progress for id-less schedules used to be keyed by their shape
+const legacyStorageKey = (schedule: StudySchedule) =>
+  `schedule-progress:${schedule.start_date || 'undated'}:${schedule.total_sessions}:${schedule.total_hours}`;
+
+export const loadProgress = (schedule: StudySchedule): ProgressLog =>
+  readJSON<ProgressLog>(
+    storageKey(schedule),
+    schedule.id ? {} : readJSON<ProgressLog>(legacyStorageKey(schedule), {})
+  );
+
+export const saveProgress = (schedule: StudySchedule, log: ProgressLog): void => {
+  writeJSON(storageKey(schedule), log);
+};
+
+export const recordSessionProgress = (
+  schedule: StudySchedule,
+  session: StudySession,
+  status: SessionStatus,
+  actualMinutes: number
+): ProgressLog => {
+  const log = {
+    ...loadProgress(schedule),
+    [getSessionKey(session)]: {
+      day: session.day,
+      session_number: session.session_number,
+      topic: session.topic,
+      status,
+      actual_minutes: Math.round(actualMinutes),
+      recorded_at: new Date().toISOString(),
+    },
+  };
+  saveProgress(schedule, log);
+  return log;
+};
+
+export const clearSessionProgress = (schedule: StudySchedule, session: StudySession): ProgressLog => {
+  const { [getSessionKey(session)]: _removed, ...log } = loadProgress(schedule);
+  saveProgress(schedule, log);
+  return log;
+};
+
+const doneMinutes = (session: StudySession, entry?: SessionProgress): number =>
+  entry ? Math.min(entry.actual_minutes, session.duration_minutes) : 0;
+
+export const summarizeProgress = (
+  schedule: StudySchedule,
+  log: ProgressLog,
+  today: Date = new Date()
+): ProgressSummary => {
+  const entries = Object.values(log);
+  const plannedMinutes = schedule.sessions.reduce((sum, s) => sum + s.duration_minutes, 0);
+  let completedMinutes = 0;
+  let overdueMinutes = 0;
+  let overdueSessions = 0;
+  const topicMap: Record<string, TopicProgress> = {};
+
+  schedule.sessions.forEach(session => {
+    const entry = log[getSessionKey(session)];
+    const done = doneMinutes(session, entry);
+    completedMinutes += done;
+
+    const topic = topicMap[session.topic] || { topic: session.topic, planned_hours: 0, actual_hours: 0 };
+    topic.planned_hours += session.duration_minutes / 60;
+    topic.actual_hours += (entry?.actual_minutes || 0) / 60;
+    topicMap[session.topic] = topic;
+
+    const date = getDayDate(schedule, session.day);
+    const isPast = date && differenceInCalendarDays(date, today) < 0;
+    if (isPast && entry?.status !== 'completed' && done < session.duration_minutes) {
+      overdueMinutes += session.duration_minutes - done;
+      overdueSessions += 1;
+    }
+  });
+
+  const days = Array.from(new Set(schedule.sessions.map(s => s.day)));
+  const averageDailyMinutes = days.length > 0 ? plannedMinutes / days.length : 0;
+  const slipDays = averageDailyMinutes > 0 ? Math.ceil(overdueMinutes / averageDailyMinutes) : 0;
+
+  const lastDayDate = days.length > 0 ? getDayDate(schedule, Math.max(...days)) : null;
+  const projectedFinish = lastDayDate ? addDays(startOfDay(lastDayDate), slipDays) : null;
+  const daysBeforeExam = projectedFinish && schedule.exam_date
+    ? differenceInCalendarDays(parseISO(schedule.exam_date), projectedFinish)
+    : null;
+
+  return {
+    completed: entries.filter(e => e.status === 'completed').length,
+    skipped: entries.filter(e => e.status === 'skipped').length,
+    partial: entries.filter(e => e.status === 'partial').length,
+    percentComplete: plannedMinutes > 0 ? (completedMinutes / plannedMinutes) * 100 : 0,
+    topics: Object.values(topicMap).sort((a, b) => b.planned_hours - a.planned_hours),
+    overdueSessions,
+    slipDays,
+    projectedFinish,
+    daysBeforeExam,
+  };
+};
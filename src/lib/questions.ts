@@ -0,0 +1,27 @@
+/**
+ * Helpers for working with questions returned by the backend
+ */
+import { Question } from '@/types';
+
+const DIFFICULTY_LEVELS = ['easy', 'medium', 'hard'];
+
+// Averages textual difficulty labels (easy/medium/hard) into a single label
+export const averageDifficulty = (questions: Question[]): string | undefined => {
+  const levels = questions
+    .map(q => DIFFICULTY_LEVELS.indexOf((q.difficulty || '').toLowerCase()))
+    .filter(level => level >= 0);
+  if (levels.length === 0) return undefined;
+  const mean = levels.reduce((sum, level) => sum + level, 0) / levels.length;
+  return DIFFICULTY_LEVELS[Math.round(mean)];
+};
+
+export const countByYear = (questions: Question[]): { year: number; count: number }[] => {
+  const counts = questions.reduce<Record<number, number>>((acc, q) => {
+    if (q.year) acc[q.year] = (acc[q.year] || 0) + 1;
+    return acc;
+  }, {});
+  return Object.keys(counts)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(year => ({ year, count: counts[year] }));
+};
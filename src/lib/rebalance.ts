@@ -0,0 +1,148 @@
+/**
+ * Redistributes unfinished sessions of a schedule across the days left before the exam
+ */
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { StudySchedule, StudySession } from '@/types';
+import { getScheduleKey, getSessionKey, getSessionOriginKey, ProgressLog } from '@/lib/progress';
+import { apiClient, QueuedMutationError } from '@/lib/api';
+import { readJSON, removeKey, writeJSON } from '@/lib/storage';
+
+export interface SessionChange {
+  session: StudySession;
+  // Missing for the remainder of a partially completed session
+  fromDay?: number;
+  toDay: number;
+}
+
+export interface RebalanceResult {
+  schedule: StudySchedule;
+  progress: ProgressLog;
+  changes: SessionChange[];
+}
+
+const buildTopicDistribution = (sessions: StudySession[]) =>
+  sessions.reduce<Record<string, number>>((acc, session) => {
+    acc[session.topic] = Number(((acc[session.topic] || 0) + session.duration_minutes / 60).toFixed(2));
+    return acc;
+  }, {});
+
+export const rebalanceSchedule = (
+  schedule: StudySchedule,
+  progress: ProgressLog,
+  today: Date = new Date()
+): RebalanceResult | null => {
+  if (!schedule.start_date || schedule.sessions.length === 0) return null;
+
+  const start = parseISO(schedule.start_date);
+  const firstDay = Math.max(differenceInCalendarDays(today, start) + 1, 1);
+  // The exam day itself is not a study day
+  const lastDay = schedule.exam_date
+    ? differenceInCalendarDays(parseISO(schedule.exam_date), start)
+    : Math.max(...schedule.sessions.map(s => s.day));
+  if (lastDay < firstDay) return null;
+
+  // Completed sessions stay where they were recorded; a partial one shrinks to the time
+  // actually studied and its remainder is rescheduled like any other pending session
+  const kept: StudySession[] = [];
+  const pending: { session: StudySession; fromDay?: number }[] = [];
+  schedule.sessions.forEach(original => {
+    const session = { ...original, origin_key: getSessionOriginKey(original) };
+    const entry = progress[getSessionKey(session)];
+    if (entry?.status === 'completed') {
+      kept.push(session);
+    } else if (entry?.status === 'partial' && entry.actual_minutes > 0) {
+      const studied = Math.min(entry.actual_minutes, session.duration_minutes);
+      kept.push({ ...session, duration_minutes: studied });
+      const remaining = session.duration_minutes - studied;
+      if (remaining > 0) {
+        const rest = { ...session, duration_minutes: remaining, origin_key: `${session.origin_key}-rest` };
+        pending.push({ session: rest });
+      }
+    } else {
+      pending.push({ session, fromDay: session.day });
+    }
+  });
+
+  // Most important first; Array.prototype.sort is stable so ties keep their order
+  pending.sort((a, b) => b.session.importance_score - a.session.importance_score);
+
+  const days = Array.from(new Set(schedule.sessions.map(s => s.day)));
+  const plannedMinutes = schedule.sessions.reduce((sum, s) => sum + s.duration_minutes, 0);
+  const pendingMinutes = pending.reduce((sum, p) => sum + p.session.duration_minutes, 0);
+  const dayCount = lastDay - firstDay + 1;
+  const dailyCapacity = Math.max(plannedMinutes / days.length, Math.ceil(pendingMinutes / dayCount));
+
+  const load: Record<number, number> = {};
+  const nextNumber: Record<number, number> = {};
+  kept.forEach(session => {
+    if (session.day >= firstDay) load[session.day] = (load[session.day] || 0) + session.duration_minutes;
+    nextNumber[session.day] = Math.max(nextNumber[session.day] || 0, session.session_number);
+  });
+
+  let day = firstDay;
+  const placed: SessionChange[] = pending.map(({ session, fromDay }) => {
+    while (day < lastDay && (load[day] || 0) + session.duration_minutes > dailyCapacity) {
+      day += 1;
+    }
+    load[day] = (load[day] || 0) + session.duration_minutes;
+    nextNumber[day] = (nextNumber[day] || 0) + 1;
+    return {
+      session: { ...session, day, session_number: nextNumber[day] },
+      fromDay,
+      toDay: day,
+    };
+  });
+
+  const sessions = [...kept, ...placed.map(p => p.session)].sort(
+    (a, b) => a.day - b.day || a.session_number - b.session_number
+  );
+
+  // Skipped sessions are rescheduled, so their records no longer apply
+  const keptProgress = Object.keys(progress)
+    .filter(key => progress[key].status !== 'skipped')
+    .reduce<ProgressLog>((acc, key) => ({ ...acc, [key]: progress[key] }), {});
+
+  return {
+    schedule: {
+      ...schedule,
+      // Pin the key so progress stays attached even though the sessions changed
+      local_key: schedule.id ? undefined : getScheduleKey(schedule),
+      sessions,
+      total_sessions: sessions.length,
+      total_hours: Number((sessions.reduce((sum, s) => sum + s.duration_minutes, 0) / 60).toFixed(2)),
+      topic_distribution: buildTopicDistribution(sessions),
+    },
+    progress: keptProgress,
+    changes: placed.filter(p => p.fromDay !== p.toDay),
+  };
+};
+
+const overrideKey = (schedule: StudySchedule) => `schedule-rebalanced:${getScheduleKey(schedule)}`;
+
+/**
+ * Keeps the rebalanced plan locally, then saves it on the backend so the history and other
+ * browsers see it too. The local copy is dropped once the backend has it; it stays while the
+ * update is queued offline or when the schedule has no backend id. Resolves to whether
+ * the backend was updated.
+ */
+export const saveRebalancedSchedule = async (schedule: StudySchedule): Promise<boolean> => {
+  writeJSON(overrideKey(schedule), schedule);
+  if (!schedule.id) return false;
+
+  try {
+    await apiClient.updateSchedule(schedule.id, schedule);
+    removeKey(overrideKey(schedule));
+    return true;
+  } catch (error) {
+    if (!(error instanceof QueuedMutationError)) console.error('Failed to save rebalanced schedule:', error);
+    return false;
+  }
+};
+
+// Returns the locally rebalanced version of a schedule if one is still pending.
+// The backend id always comes from the backend's record, never from the local copy.
+export const withSavedRebalance = <T extends StudySchedule>(schedule: T): T => {
+  const saved = readJSON<StudySchedule | null>(overrideKey(schedule), null);
+  if (!saved) return schedule;
+  return { ...schedule, ...saved, id: schedule.id, local_key: schedule.id ? undefined : getScheduleKey(schedule) };
+};
@@ -0,0 +1,47 @@
+/**
+ * Helpers for identifying schedules and mapping their days onto calendar dates
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { StudySchedule } from '@/types';
+
+export const DATE_INPUT_FORMAT = 'yyyy-MM-dd';
+const DATE_LABEL_FORMAT = 'EEEE, MMM d, yyyy';
+
+// 32-bit FNV-1a, enough to tell schedules apart without async crypto
+const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Identifies a schedule the backend gave no id, from its start date and sessions only, so a
+ * freshly generated plan and the same plan reopened from history share progress and overrides.
+ */
+export const getScheduleContentKey = (schedule: Pick<StudySchedule, 'start_date' | 'sessions'>): string => {
+  const sessions = schedule.sessions
+    .map(s => `${s.day}.${s.session_number}.${s.duration_minutes}.${s.topic}`)
+    .join('|');
+  return `schedule-${schedule.start_date?.slice(0, 10) || 'undated'}-${hashString(sessions)}`;
+};
+
+export const toDateInputValue = (date: Date): string => format(date, DATE_INPUT_FORMAT);
+
+// Schedule days are 1-based offsets from the schedule's start date
+export const getDayDate = (schedule: StudySchedule, day: number): Date | null => {
+  if (!schedule.start_date) return null;
+  return addDays(parseISO(schedule.start_date), day - 1);
+};
+
+export const formatDayLabel = (schedule: StudySchedule, day: number): string => {
+  const date = getDayDate(schedule, day);
+  return date ? format(date, DATE_LABEL_FORMAT) : `Day ${day}`;
+};
+
+export const formatDate = (date: string): string => format(parseISO(date), DATE_LABEL_FORMAT);
+
+export const getDaysUntil = (date: string, from: Date = new Date()): number =>
+  differenceInCalendarDays(parseISO(date), from);
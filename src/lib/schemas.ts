@@ -0,0 +1,340 @@
+/**
+ * Response schemas for the backend API, mirroring src/types.
+ * The backend stores documents in MongoDB, so ids may arrive as `_id`.
+ */
+import {
+  AnalysisResponse,
+  AuthSession,
+  HealthStatus,
+  Paper,
+  PaperDetail,
+  PaperUploadResponse,
+  Question,
+  RepeatedQuestion,
+  SavedSchedule,
+  SimilarQuestion,
+  StudySchedule,
+  StudySession,
+  TimerActionResult,
+  TimerState,
+  TimerStats,
+  TopicAnalysis,
+  User,
+} from '@/types';
+import {
+  array,
+  boolean,
+  mismatch,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  Schema,
+  string,
+  transform,
+  unknownValue,
+  withDefault,
+} from '@/lib/validation';
+
+// Questions
+
+const rawQuestion = object({
+  _id: optional(string),
+  id: optional(string),
+  text: string,
+  topic: optional(string),
+  subject: optional(string),
+  year: optional(number),
+  difficulty: optional(string),
+  importance_score: withDefault(number, 0),
+  frequency: withDefault(number, 1),
+  last_appeared: optional(number),
+});
+
+type RawQuestion = ReturnType<typeof rawQuestion>;
+
+const toQuestion = ({ _id, id, ...rest }: RawQuestion): Question => ({
+  id: _id || id,
+  ...rest,
+});
+
+export const questionListSchema: Schema<Question[]> = transform(array(rawQuestion), list => list.map(toQuestion));
+
+export const questionsResponseSchema: Schema<Question[]> = transform(
+  object({ questions: withDefault(questionListSchema, []) }),
+  data => data.questions
+);
+
+// Matches arrive either flat or as `{ question, similarity }`, where `question` is text or a document
+const similarQuestionSchema: Schema<{ question: RawQuestion; similarity: number }> = (value, path) => {
+  const match = object({
+    question: optional(unknownValue),
+    similarity: optional(number),
+    similarity_score: optional(number),
+  })(value, path);
+  const nested = typeof match.question === 'object' && match.question !== null;
+  const source = nested
+    ? match.question
+    : { ...(value as object), text: match.question ?? object({ text: optional(string) })(value, path).text };
+  return {
+    question: rawQuestion(source, nested ? `${path}.question` : path),
+    similarity: match.similarity ?? match.similarity_score ?? 0,
+  };
+};
+
+export const similarQuestionsResponseSchema: Schema<SimilarQuestion[]> = transform(
+  object({ similar_questions: withDefault(array(similarQuestionSchema), []) }),
+  data => data.similar_questions.map(match => ({ ...toQuestion(match.question), similarity: match.similarity }))
+);
+
+const repeatedQuestionSchema: Schema<RepeatedQuestion> = transform(
+  object({
+    text: optional(string),
+    question: optional(string),
+    frequency: optional(number),
+    count: optional(number),
+    years: withDefault(array(number), []),
+    topic: optional(string),
+  }),
+  (raw, path) => ({
+    text: raw.text ?? raw.question ?? mismatch(`${path}.text`, 'a string', undefined),
+    frequency: raw.frequency ?? raw.count ?? raw.years.length,
+    years: raw.years,
+    topic: raw.topic,
+  })
+);
+
+// Topics and analysis
+
+const topicObjectSchema: Schema<TopicAnalysis> = object({
+  topic: string,
+  frequency: withDefault(number, 0),
+  importance_score: withDefault(number, 0),
+  questions: withDefault(array(string), []),
+  avg_difficulty: optional(string),
+});
+
+// /topics may list bare topic names
+const topicSchema: Schema<TopicAnalysis> = oneOf(
+  transform(string, topic => ({ topic, frequency: 0, importance_score: 0, questions: [] })),
+  topicObjectSchema
+);
+
+export const topicsResponseSchema: Schema<TopicAnalysis[]> = transform(
+  object({ topics: withDefault(array(topicSchema), []) }),
+  data => data.topics
+);
+
+export const analysisResponseSchema: Schema<AnalysisResponse> = object({
+  total_questions: number,
+  topics: withDefault(array(topicObjectSchema), []),
+  repeated_questions: withDefault(array(repeatedQuestionSchema), []),
+  important_topics: withDefault(array(string), []),
+  predictions: withDefault(questionListSchema, []),
+  success: withDefault(boolean, true),
+});
+
+export const predictionsResponseSchema: Schema<Question[]> = transform(
+  object({ predictions: withDefault(questionListSchema, []) }),
+  data => data.predictions
+);
+
+// Papers
+
+const rawPaper = object({
+  _id: optional(string),
+  id: optional(string),
+  paper_id: optional(string),
+  filename: optional(string),
+  file_name: optional(string),
+  subject: optional(string),
+  year: optional(number),
+  uploaded_at: optional(string),
+  extracted_text_length: withDefault(number, 0),
+  questions_extracted: optional(number),
+  topics_identified: optional(array(string)),
+  topics: optional(array(string)),
+  questions: optional(array(unknownValue)),
+});
+
+const paperSchema: Schema<Paper> = transform(rawPaper, (raw, path) => ({
+  id: raw._id || raw.id || raw.paper_id || mismatch(`${path}._id`, 'a paper id', undefined),
+  filename: raw.filename || raw.file_name || 'Untitled paper',
+  subject: raw.subject,
+  year: raw.year,
+  uploaded_at: raw.uploaded_at,
+  extracted_text_length: raw.extracted_text_length,
+  questions_extracted: raw.questions_extracted ?? raw.questions?.length ?? 0,
+  topics_identified: raw.topics_identified || raw.topics || [],
+}));
+
+export const papersResponseSchema: Schema<Paper[]> = transform(
+  object({ papers: withDefault(array(paperSchema), []) }),
+  data => data.papers
+);
+
+// The detail endpoint may wrap the document as `{ paper }`
+export const paperDetailSchema: Schema<PaperDetail> = (value, path) => {
+  const { paper } = object({ paper: optional(unknownValue) })(value, path);
+  const [raw, rawPath] = paper ? [paper, path ? `${path}.paper` : 'paper'] : [value, path];
+  return {
+    ...paperSchema(raw, rawPath),
+    ...object({ questions: withDefault(questionListSchema, []) })(raw, rawPath),
+  };
+};
+
+export const paperUploadResponseSchema: Schema<PaperUploadResponse> = object({
+  success: withDefault(boolean, true),
+  message: withDefault(string, ''),
+  paper_id: string,
+  extracted_text_length: withDefault(number, 0),
+  questions_extracted: number,
+  topics_identified: withDefault(array(string), []),
+});
+
+// Schedules
+
+const studySessionSchema: Schema<StudySession> = object({
+  topic: string,
+  duration_minutes: number,
+  importance_score: withDefault(number, 0),
+  questions_to_cover: withDefault(array(string), []),
+  day: number,
+  session_number: number,
+  origin_key: optional(string),
+});
+
+const rawSchedule = object({
+  _id: optional(string),
+  id: optional(string),
+  schedule_id: optional(string),
+  total_hours: number,
+  total_sessions: number,
+  sessions: array(studySessionSchema),
+  topic_distribution: withDefault(record(number), {}),
+  start_date: optional(string),
+  exam_date: optional(string),
+  break_duration: optional(number),
+});
+
+export const studyScheduleSchema: Schema<StudySchedule> = transform(
+  rawSchedule,
+  ({ _id, id, schedule_id, ...schedule }) => ({ ...schedule, id: _id || id || schedule_id })
+);
+
+// Saved schedules may wrap the schedule and keep the request parameters alongside it
+export const savedScheduleSchema: Schema<SavedSchedule> = (value, path) => {
+  const wrapper = object({
+    _id: optional(string),
+    id: optional(string),
+    schedule_id: optional(string),
+    created_at: optional(string),
+    schedule: optional(unknownValue),
+    parameters: optional(object({
+      available_hours: number,
+      study_duration: optional(number),
+      break_duration: optional(number),
+      start_date: optional(string),
+      exam_date: optional(string),
+      topics_to_include: optional(array(string)),
+      subject: optional(string),
+      review_minutes_per_day: optional(array(number)),
+    })),
+    subject: optional(string),
+    available_hours: optional(number),
+    study_duration: optional(number),
+    break_duration: optional(number),
+    topics_to_include: optional(array(string)),
+  })(value, path);
+  const schedule = wrapper.schedule
+    ? studyScheduleSchema(wrapper.schedule, `${path}.schedule`)
+    : studyScheduleSchema(value, path);
+
+  return {
+    ...schedule,
+    id: wrapper._id || wrapper.id || wrapper.schedule_id || schedule.id,
+    break_duration: schedule.break_duration ?? wrapper.parameters?.break_duration ?? wrapper.break_duration,
+    created_at: wrapper.created_at,
+    parameters: wrapper.parameters || {
+      available_hours: wrapper.available_hours ?? schedule.total_hours,
+      study_duration: wrapper.study_duration,
+      break_duration: wrapper.break_duration,
+      start_date: schedule.start_date,
+      exam_date: schedule.exam_date,
+      topics_to_include: wrapper.topics_to_include,
+      subject: wrapper.subject,
+    },
+  };
+};
+
+export const schedulesResponseSchema: Schema<SavedSchedule[]> = transform(
+  object({ schedules: withDefault(array(unknownValue), []) }),
+  (data, path) => data.schedules.map((raw, index) => savedScheduleSchema(raw, `${path ? `${path}.` : ''}schedules[${index}]`))
+);
+
+// Timer
+
+export const timerStateSchema: Schema<TimerState> = object({
+  is_running: boolean,
+  is_break: boolean,
+  current_session: number,
+  time_remaining: number,
+  topic: optional(string),
+});
+
+export const timerStateResponseSchema: Schema<TimerState> = transform(
+  object({ state: timerStateSchema }),
+  data => data.state
+);
+
+export const timerActionResultSchema: Schema<TimerActionResult> = object({
+  message: optional(string),
+  state: optional(timerStateSchema),
+});
+
+export const timerStatsResponseSchema: Schema<TimerStats> = transform(
+  object({
+    stats: object({
+      sessions_completed: withDefault(number, 0),
+      total_study_minutes: withDefault(number, 0),
+      total_break_minutes: withDefault(number, 0),
+      current_topic: optional(string),
+      is_break: withDefault(boolean, false),
+      time_remaining: withDefault(string, '00:00'),
+    }),
+  }),
+  data => data.stats
+);
+
+// Auth
+
+export const userSchema: Schema<User> = transform(
+  object({
+    _id: optional(string),
+    id: optional(string),
+    email: string,
+    name: optional(string),
+  }),
+  (raw, path) => ({
+    id: raw._id || raw.id || mismatch(path ? `${path}.id` : 'id', 'a user id', undefined),
+    email: raw.email,
+    name: raw.name,
+  })
+);
+
+export const authSessionSchema: Schema<AuthSession> = object({
+  access_token: string,
+  refresh_token: optional(string),
+  user: userSchema,
+});
+
+// Refresh responses may omit the user, which the client already has
+export const refreshedTokensSchema = object({
+  access_token: string,
+  refresh_token: optional(string),
+});
+
+export const healthStatusSchema: Schema<HealthStatus> = object({
+  status: optional(string),
+});
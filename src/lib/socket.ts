@@ -0,0 +1,211 @@
+/**
+ * Reusable WebSocket client: validated typed messages, reconnection with exponential
+ * backoff and jitter, heartbeat pings and resubscription after every reconnect
+ */
+import { useEffect, useRef, useState } from 'react';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface LiveSocketOptions<TIncoming, TOutgoing> {
+  url: string;
+  // Validates a decoded frame; frames that do not match the protocol return null and are dropped
+  parse: (raw: unknown) => TIncoming | null;
+  onMessage: (message: TIncoming) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+  // Called after every successful connection; `reconnected` is false for the first one
+  onOpen?: (reconnected: boolean) => void;
+  // Messages re-sent after each (re)connect so the server restores our subscriptions
+  subscriptions?: () => TOutgoing[];
+  ping?: TOutgoing;
+  isPong?: (message: TIncoming) => boolean;
+  heartbeatInterval?: number;
+  minReconnectDelay?: number;
+  maxReconnectDelay?: number;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 25000;
+const DEFAULT_MIN_RECONNECT_DELAY = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY = 30000;
+
+// "Full jitter" backoff: a random delay up to an exponentially growing cap, jittered from the
+// first attempt so clients dropped together by a server restart do not reconnect together
+export const getReconnectDelay = (attempt: number, minDelay: number, maxDelay: number) =>
+  Math.round(Math.random() * Math.min(maxDelay, minDelay * Math.pow(2, attempt)));
+
+export class LiveSocket<TIncoming, TOutgoing> {
+  private ws: WebSocket | null = null;
+  private currentStatus: ConnectionStatus = 'idle';
+  private attempt = 0;
+  private hasConnected = false;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  // Only servers that have answered a ping are expected to keep answering
+  private serverAnswersPings = false;
+  private awaitingPong = false;
+
+  constructor(private options: LiveSocketOptions<TIncoming, TOutgoing>) {}
+
+  get status(): ConnectionStatus {
+    return this.currentStatus;
+  }
+
+  connect() {
+    if (this.ws || this.currentStatus === 'closed') return;
+    this.setStatus(this.hasConnected || this.attempt > 0 ? 'reconnecting' : 'connecting');
+
+    const ws = new WebSocket(this.options.url);
+    ws.onopen = () => this.handleOpen();
+    ws.onmessage = (event) => this.handleMessage(event.data);
+    ws.onerror = (error) => console.error('WebSocket error:', error);
+    ws.onclose = () => this.handleClose();
+    this.ws = ws;
+  }
+
+  send(message: TOutgoing): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  // Closes for good: no reconnection and no further callbacks
+  close() {
+    this.setStatus('closed');
+    this.clearTimers();
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.onclose = null;
+      ws.close();
+    }
+  }
+
+  private handleOpen() {
+    const reconnected = this.hasConnected;
+    this.hasConnected = true;
+    this.attempt = 0;
+    this.setStatus('open');
+    (this.options.subscriptions?.() || []).forEach(message => this.send(message));
+    this.startHeartbeat();
+    this.options.onOpen?.(reconnected);
+  }
+
+  private handleMessage(data: unknown) {
+    if (typeof data !== 'string') {
+      console.error('Dropped non-text socket frame:', data);
+      return;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data);
+    } catch (error) {
+      console.error('Dropped non-JSON socket frame:', data);
+      return;
+    }
+
+    const message = this.options.parse(raw);
+    if (!message) {
+      console.error('Dropped socket message that does not match the protocol:', raw);
+      return;
+    }
+
+    if (this.options.isPong?.(message)) {
+      this.serverAnswersPings = true;
+      this.awaitingPong = false;
+      return;
+    }
+    this.options.onMessage(message);
+  }
+
+  private handleClose() {
+    this.ws = null;
+    this.clearTimers();
+    if (this.currentStatus === 'closed') return;
+
+    this.setStatus('reconnecting');
+    const delay = getReconnectDelay(
+      this.attempt++,
+      this.options.minReconnectDelay ?? DEFAULT_MIN_RECONNECT_DELAY,
+      this.options.maxReconnectDelay ?? DEFAULT_MAX_RECONNECT_DELAY
+    );
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startHeartbeat() {
+    const { ping } = this.options;
+    if (!ping) return;
+    this.awaitingPong = false;
+
+    this.heartbeat = setInterval(() => {
+      // A missed pong means the connection is half-open; force a reconnect
+      if (this.awaitingPong && this.serverAnswersPings) {
+        this.ws?.close();
+        return;
+      }
+      this.awaitingPong = this.send(ping);
+    }, this.options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL);
+  }
+
+  private clearTimers() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (this.currentStatus === status) return;
+    this.currentStatus = status;
+    this.options.onStatusChange?.(status);
+  }
+}
+
+/**
+ * Keeps a LiveSocket open while `enabled` and closes it on unmount. Callbacks always
+ * see the latest props, so callers can pass inline handlers.
+ */
+export const useLiveSocket = <TIncoming, TOutgoing>(
+  options: LiveSocketOptions<TIncoming, TOutgoing>,
+  enabled: boolean = true
+) => {
+  const [status, setStatus] = useState<ConnectionStatus>('idle');
+  const optionsRef = useRef(options);
+  const socketRef = useRef<LiveSocket<TIncoming, TOutgoing> | null>(null);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const socket = new LiveSocket<TIncoming, TOutgoing>({
+      ...optionsRef.current,
+      parse: raw => optionsRef.current.parse(raw),
+      onMessage: message => optionsRef.current.onMessage(message),
+      onOpen: reconnected => optionsRef.current.onOpen?.(reconnected),
+      subscriptions: () => optionsRef.current.subscriptions?.() || [],
+      isPong: message => optionsRef.current.isPong?.(message) ?? false,
+      onStatusChange: next => {
+        setStatus(next);
+        optionsRef.current.onStatusChange?.(next);
+      },
+    });
+    socketRef.current = socket;
+    socket.connect();
+
+    return () => {
+      socket.close();
+      socketRef.current = null;
+      setStatus('idle');
+    };
+  }, [options.url, enabled]);
+
+  const send = (message: TOutgoing) => socketRef.current?.send(message) ?? false;
+
+  return { status, send };
+};
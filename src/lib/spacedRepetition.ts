@@ -0,0 +1,152 @@
+/**
+ * SM-2 spaced repetition over practised questions, weighted by importance and frequency
+ */
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { Confidence, Question, ReviewItem } from '@/types';
+import { getQuestionKey } from '@/lib/practice';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+export type ReviewLog = Record<string, ReviewItem>;
+
+// Rough time to answer one question from memory and check it
+export const REVIEW_MINUTES = 3;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_HISTORY = 20;
+
+// SM-2 grades on its 0-5 scale; anything below 3 restarts the sequence
+const CONFIDENCE_QUALITY: Record<Confidence, number> = {
+  unknown: 1,
+  shaky: 3,
+  confident: 5,
+};
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const storageKey = (userId: string) => `review-state:${userId}`;
+
+export const loadReviewLog = (userId: string): ReviewLog =>
+  readJSON<ReviewLog>(storageKey(userId), {});
+
+/**
+ * Between 1 and 2: important, frequently asked questions come back up to twice as often
+ * as plain SM-2 would schedule them.
+ */
+export const getReviewWeight = (item: Pick<ReviewItem, 'importance_score' | 'frequency'>): number =>
+  1 + 0.5 * Math.min(1, Math.max(0, item.importance_score)) + 0.1 * Math.min(5, Math.max(0, item.frequency - 1));
+
+type Sm2State = Pick<ReviewItem, 'ease' | 'interval' | 'repetitions'>;
+
+const applySm2 = (state: Sm2State, quality: number): Sm2State => {
+  const ease = Math.max(MIN_EASE, state.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  if (quality < 3) {
+    return { ease, interval: 1, repetitions: 0 };
+  }
+  const repetitions = state.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval * state.ease);
+  return { ease, interval, repetitions };
+};
+
+// The SM-2 interval stays unweighted so the weight is not compounded on every review
+const weightedInterval = (item: Pick<ReviewItem, 'importance_score' | 'frequency'>, interval: number) =>
+  Math.max(1, Math.round(interval / getReviewWeight(item)));
+
+export const recordReview = (
+  userId: string,
+  question: Question,
+  confidence: Confidence,
+  subject?: string,
+  today: Date = new Date()
+): ReviewLog => {
+  const log = loadReviewLog(userId);
+  const key = getQuestionKey(question);
+  const previous = log[key];
+
+  const details = {
+    text: question.text,
+    // Keeps the subject a question was first practised under when it is graded from "all subjects"
+    subject: subject ?? previous?.subject,
+    topic: question.topic,
+    importance_score: question.importance_score,
+    frequency: question.frequency,
+  };
+  const next = applySm2(
+    previous || { ease: INITIAL_EASE, interval: 0, repetitions: 0 },
+    CONFIDENCE_QUALITY[confidence]
+  );
+  const interval = weightedInterval(details, next.interval);
+
+  const item: ReviewItem = {
+    ...details,
+    ...next,
+    due: toDateKey(addDays(startOfDay(today), interval)),
+    history: [
+      ...(previous?.history || []),
+      { reviewed_at: today.toISOString(), confidence, interval },
+    ].slice(-MAX_HISTORY),
+  };
+
+  const updated = { ...log, [key]: item };
+  writeJSON(storageKey(userId), updated);
+  return updated;
+};
+
+// Reviews from every subject when subject is null or undefined
+const inSubject = (log: ReviewLog, subject?: string | null): ReviewItem[] =>
+  Object.values(log).filter(item => !subject || item.subject === subject);
+
+// Reviews recorded without a subject, which no single-subject view picks up
+export const getUnassignedReviews = (log: ReviewLog): ReviewLog => {
+  const unassigned: ReviewLog = {};
+  Object.keys(log).forEach(key => {
+    if (!log[key].subject) unassigned[key] = log[key];
+  });
+  return unassigned;
+};
+
+/**
+ * Reviews due today or earlier, most urgent first: overdue days scaled by the question's weight.
+ */
+export const getDueReviews = (log: ReviewLog, subject?: string | null, today: Date = new Date()): ReviewItem[] =>
+  inSubject(log, subject)
+    .map(item => ({ item, overdue: differenceInCalendarDays(today, parseISO(item.due)) }))
+    .filter(({ overdue }) => overdue >= 0)
+    .sort((a, b) => (b.overdue + 1) * getReviewWeight(b.item) - (a.overdue + 1) * getReviewWeight(a.item))
+    .map(({ item }) => item);
+
+/**
+ * Projects review minutes for each of the next `days` days from `start`. Overdue reviews land
+ * on the first day, and later repetitions assume the student keeps answering correctly.
+ */
+export const forecastReviewMinutes = (
+  log: ReviewLog,
+  start: Date,
+  days: number,
+  subject?: string | null
+): number[] => {
+  const minutes: number[] = new Array(days).fill(0);
+  const first = startOfDay(start);
+
+  inSubject(log, subject).forEach(item => {
+    let state: Sm2State = item;
+    let day = Math.max(0, differenceInCalendarDays(parseISO(item.due), first));
+    while (day < days) {
+      minutes[day] += REVIEW_MINUTES;
+      state = applySm2(state, 4);
+      day += weightedInterval(item, state.interval);
+    }
+  });
+
+  return minutes;
+};
+
+// Lets a queued review be graded through the same paths as a freshly fetched question
+export const toReviewQuestion = (item: ReviewItem): Question => ({
+  id: getQuestionKey(item),
+  text: item.text,
+  topic: item.topic,
+  subject: item.subject,
+  importance_score: item.importance_score,
+  frequency: item.frequency,
+});
@@ -0,0 +1,28 @@
+/**
+ * Small JSON wrapper around localStorage that is safe to call during SSR
+ */
+
+export const readJSON = <T>(key: string, fallback: T): T => {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key} from storage:`, error);
+    return fallback;
+  }
+};
+
+export const writeJSON = <T>(key: string, value: T): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to write ${key} to storage:`, error);
+  }
+};
+
+export const removeKey = (key: string): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(key);
+};
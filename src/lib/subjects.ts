@@ -0,0 +1,119 @@
+/**
+ * Subject workspaces: cache scoping, per-subject exam settings and the all-subjects schedule split
+ */
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Paper, StudySchedule, StudySession } from '@/types';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+export interface SubjectSettings {
+  exam_date?: string;
+  // Relative share of study time, 1 (low) to 5 (high)
+  weight: number;
+}
+
+export interface SubjectAllocation extends SubjectSettings {
+  subject: string;
+  hours: number;
+}
+
+export const DEFAULT_SUBJECT_WEIGHT = 3;
+
+export const getSubjects = (papers: Paper[]): string[] =>
+  Array.from(new Set(papers.map(paper => paper.subject?.trim()).filter((s): s is string => !!s))).sort();
+
+// The unscoped key is kept for all subjects so data cached before subjects existed stays valid
+export const scopedCacheKey = (key: string, subject: string | null): string =>
+  subject ? `${key}:${subject}` : key;
+
+const activeSubjectKey = (userId: string) => `active-subject:${userId}`;
+
+export const loadActiveSubject = (userId: string): string | null =>
+  readJSON<string | null>(activeSubjectKey(userId), null);
+
+export const saveActiveSubject = (userId: string, subject: string | null): void => {
+  writeJSON(activeSubjectKey(userId), subject);
+};
+
+const settingsKey = (userId: string) => `subject-settings:${userId}`;
+
+export const loadSubjectSettings = (userId: string): Record<string, SubjectSettings> =>
+  readJSON<Record<string, SubjectSettings>>(settingsKey(userId), {});
+
+export const saveSubjectSettings = (userId: string, settings: Record<string, SubjectSettings>): void => {
+  writeJSON(settingsKey(userId), settings);
+};
+
+/**
+ * Splits the available hours by weight × urgency. Urgency runs from 1 for the latest exam (or
+ * no exam date) up to 2 for an exam that is due right away, so sooner exams get more time
+ * without starving the rest.
+ */
+export const allocateHours = (
+  totalHours: number,
+  subjects: (SubjectSettings & { subject: string })[],
+  start: Date
+): SubjectAllocation[] => {
+  const daysLeft = subjects.map(s =>
+    s.exam_date ? Math.max(1, differenceInCalendarDays(parseISO(s.exam_date), start)) : null
+  );
+  const latest = Math.max(1, ...daysLeft.filter((d): d is number => d !== null));
+  const scores = subjects.map((s, index) => {
+    const days = daysLeft[index];
+    const urgency = days === null ? 1 : 1 + (latest - days) / latest;
+    return Math.max(0, s.weight) * urgency;
+  });
+  const totalScore = scores.reduce((sum, score) => sum + score, 0);
+  if (totalScore === 0) return subjects.map(s => ({ ...s, hours: 0 }));
+
+  const allocations = subjects.map((s, index) => ({
+    ...s,
+    hours: Math.round((totalHours * scores[index]) / totalScore * 10) / 10,
+  }));
+
+  // Rounding drift goes to the largest share so the hours still add up
+  const drift = Math.round((totalHours - allocations.reduce((sum, a) => sum + a.hours, 0)) * 10) / 10;
+  if (drift !== 0) {
+    const largest = allocations.reduce((max, a) => (a.hours > max.hours ? a : max), allocations[0]);
+    largest.hours = Math.round((largest.hours + drift) * 10) / 10;
+  }
+  return allocations;
+};
+
+/**
+ * Combines per-subject schedules that share a start date into one plan. Topics are prefixed
+ * with their subject so progress, the timer and exports keep them apart.
+ */
+export const mergeSubjectSchedules = (
+  parts: { subject: string; schedule: StudySchedule }[],
+  startDate: string
+): StudySchedule => {
+  const sessions: StudySession[] = parts
+    .flatMap(({ subject, schedule }) =>
+      schedule.sessions.map(session => ({ ...session, topic: `${subject}: ${session.topic}` }))
+    )
+    .sort((a, b) => a.day - b.day || a.session_number - b.session_number);
+
+  const perDay: Record<number, number> = {};
+  const renumbered = sessions.map(session => {
+    perDay[session.day] = (perDay[session.day] || 0) + 1;
+    return { ...session, session_number: perDay[session.day] };
+  });
+
+  const topicDistribution: Record<string, number> = {};
+  parts.forEach(({ subject, schedule }) => {
+    Object.keys(schedule.topic_distribution).forEach(topic => {
+      topicDistribution[`${subject}: ${topic}`] = schedule.topic_distribution[topic];
+    });
+  });
+
+  const examDates = parts.map(p => p.schedule.exam_date).filter((d): d is string => !!d).sort();
+
+  return {
+    total_hours: parts.reduce((sum, p) => sum + p.schedule.total_hours, 0),
+    total_sessions: renumbered.length,
+    sessions: renumbered,
+    topic_distribution: topicDistribution,
+    start_date: startDate,
+    exam_date: examDates[examDates.length - 1],
+  };
+};
@@ -0,0 +1,83 @@
+/**
+ * Replays mutations queued while offline once the backend is reachable again
+ */
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { apiClient } from '@/lib/api';
+import { isNetworkError } from '@/lib/errors';
+import { getAuthSession } from '@/lib/auth';
+import { getQueuedMutations, removeQueuedMutation, subscribeToQueue } from '@/lib/offlineStore';
+
+const HEALTH_POLL_INTERVAL = 30000;
+
+let replaying = false;
+
+// Replays the signed-in user's queued mutations in order and returns how many reached the backend.
+// Other users' mutations are left alone, since they would be sent with the wrong token.
+export const replayQueuedMutations = async (): Promise<number> => {
+  const ownerId = getAuthSession()?.user.id;
+  if (replaying || !ownerId) return 0;
+  const mutations = (await getQueuedMutations()).filter(mutation => mutation.owner_id === ownerId);
+  if (mutations.length === 0) return 0;
+
+  replaying = true;
+  let replayed = 0;
+  try {
+    await apiClient.healthCheck();
+
+    for (const mutation of mutations) {
+      try {
+        await apiClient.replayMutation(mutation);
+        replayed += 1;
+      } catch (error) {
+        // Offline again: keep this and the remaining mutations for next time
+        if (isNetworkError(error)) break;
+        // The backend rejected it, so drop it rather than block the queue
+        console.error(`Dropping queued mutation "${mutation.description}":`, error);
+        toast.error(`${mutation.description} failed after reconnecting`);
+      }
+      await removeQueuedMutation(mutation.id as number);
+    }
+  } catch (error) {
+    // Health check failed, the backend is still unreachable
+  } finally {
+    replaying = false;
+  }
+  return replayed;
+};
+
+export function useSyncStatus() {
+  const [online, setOnline] = useState(true);
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const unsubscribe = subscribeToQueue(setPending);
+
+    const sync = async () => {
+      const replayed = await replayQueuedMutations();
+      if (replayed > 0) {
+        toast.success(`Synced ${replayed} change(s) made offline`);
+      }
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const interval = setInterval(sync, HEALTH_POLL_INTERVAL);
+    sync();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, []);
+
+  return { online, pending };
+}
@@ -0,0 +1,128 @@
+/**
+ * Cross-tab coordination: a BroadcastChannel wrapper and leader election, so that
+ * work that must happen once per browser (e.g. owning the timer socket) runs in a single tab
+ */
+import { readJSON, removeKey, writeJSON } from '@/lib/storage';
+
+interface Lease {
+  tabId: string;
+  expires: number;
+}
+
+const LEASE_TTL = 5000;
+const LEASE_RENEW_INTERVAL = 2000;
+
+const createTabId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export class TabChannel<T> {
+  private channel: BroadcastChannel | null;
+
+  constructor(name: string) {
+    this.channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+  }
+
+  get supported(): boolean {
+    return this.channel !== null;
+  }
+
+  post(message: T) {
+    this.channel?.postMessage(message);
+  }
+
+  subscribe(listener: (message: T) => void): () => void {
+    const channel = this.channel;
+    if (!channel) return () => {};
+    const handler = (event: MessageEvent<T>) => listener(event.data);
+    channel.addEventListener('message', handler);
+    return () => channel.removeEventListener('message', handler);
+  }
+
+  close() {
+    this.channel?.close();
+    this.channel = null;
+  }
+}
+
+/**
+ * Elects one leader among the tabs sharing a name. Uses the Web Locks API where
+ * available (released automatically when a tab closes) and a renewable
+ * localStorage lease otherwise.
+ */
+export class TabLeader {
+  private readonly tabId = createTabId();
+  private isLeader: boolean | null = null;
+  private stopped = false;
+  private releaseLock: (() => void) | null = null;
+  private abortWait: AbortController | null = null;
+  private leaseInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private name: string, private onChange: (isLeader: boolean) => void) {}
+
+  start() {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      this.electWithLocks();
+    } else {
+      this.electWithLease();
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+    this.releaseLock?.();
+    this.abortWait?.abort();
+    if (this.leaseInterval) {
+      clearInterval(this.leaseInterval);
+      this.leaseInterval = null;
+      if (this.isLeader) removeKey(this.leaseKey);
+    }
+  }
+
+  private get leaseKey() {
+    return `tab-leader:${this.name}`;
+  }
+
+  private setLeader(isLeader: boolean) {
+    if (this.stopped || this.isLeader === isLeader) return;
+    this.isLeader = isLeader;
+    this.onChange(isLeader);
+  }
+
+  // Holds the lock until stop() so the next waiting tab takes over when this one goes away
+  private holdLock = () =>
+    new Promise<void>(resolve => {
+      if (this.stopped) return resolve();
+      this.releaseLock = resolve;
+      this.setLeader(true);
+    });
+
+  private electWithLocks() {
+    navigator.locks.request(this.name, { ifAvailable: true }, lock => {
+      if (lock) return this.holdLock();
+
+      this.setLeader(false);
+      this.abortWait = new AbortController();
+      navigator.locks
+        .request(this.name, { signal: this.abortWait.signal }, this.holdLock)
+        .catch(() => {
+          // Aborted on unmount
+        });
+      return undefined;
+    });
+  }
+
+  private electWithLease() {
+    const check = () => {
+      const lease = readJSON<Lease | null>(this.leaseKey, null);
+      const now = Date.now();
+      if (!lease || lease.expires < now || lease.tabId === this.tabId) {
+        writeJSON<Lease>(this.leaseKey, { tabId: this.tabId, expires: now + LEASE_TTL });
+        this.setLeader(true);
+      } else {
+        this.setLeader(false);
+      }
+    };
+
+    check();
+    this.leaseInterval = setInterval(check, LEASE_RENEW_INTERVAL);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Per-user Pomodoro configuration
+ */
+import { TimerConfig, TimerState } from '@/types';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+export const DEFAULT_TIMER_CONFIG: TimerConfig = {
+  study_duration: 25,
+  break_duration: 5,
+  long_break_duration: 15,
+  sessions_until_long_break: 4,
+};
+
+const configKey = (userId: string) => `timer-config:${userId}`;
+
+export const loadTimerConfig = (userId: string): TimerConfig => ({
+  ...DEFAULT_TIMER_CONFIG,
+  ...readJSON<Partial<TimerConfig>>(configKey(userId), {}),
+});
+
+export const saveTimerConfig = (userId: string, config: TimerConfig): void => {
+  writeJSON(configKey(userId), config);
+};
+
+// current_session counts completed focus sessions, so a break that follows
+// every Nth session is the long one
+export const isLongBreak = (state: TimerState, config: TimerConfig): boolean =>
+  state.is_break &&
+  state.current_session > 0 &&
+  state.current_session % config.sessions_until_long_break === 0;
+
+export const getPhaseSeconds = (state: TimerState, config: TimerConfig): number => {
+  if (!state.is_break) return config.study_duration * 60;
+  return (isLongBreak(state, config) ? config.long_break_duration : config.break_duration) * 60;
+};
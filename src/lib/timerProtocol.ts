@@ -0,0 +1,42 @@
+/**
+ * Message protocol of the /api/timer/ws/{user_id} socket
+ */
+import { TimerState } from '@/types';
+import { tryParse } from '@/lib/validation';
+import { timerStateSchema } from '@/lib/schemas';
+
+export type TimerSocketMessage =
+  | { type: 'state'; state: TimerState; notification?: string }
+  | { type: 'pong' }
+  | { type: 'error'; detail: string };
+
+export type TimerSocketCommand =
+  | { type: 'ping' }
+  // The token is read on every (re)connect so a refreshed one is picked up
+  | { type: 'subscribe'; user_id: string; token?: string };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null;
+
+// State frames may arrive untagged (`{ state, notification }`), which is how the backend sends them
+export const parseTimerMessage = (raw: unknown): TimerSocketMessage | null => {
+  if (!isObject(raw)) return null;
+
+  if (raw.type === 'pong') return { type: 'pong' };
+  if (raw.type === 'error') {
+    return { type: 'error', detail: typeof raw.detail === 'string' ? raw.detail : 'Unknown timer error' };
+  }
+  if (raw.type !== undefined && raw.type !== 'state') return null;
+
+  const state: TimerState | null = tryParse(timerStateSchema, raw.state);
+  if (!state) return null;
+  return {
+    type: 'state',
+    state,
+    notification: typeof raw.notification === 'string' ? raw.notification : undefined,
+  };
+};
+
+export const TIMER_PING: TimerSocketCommand = { type: 'ping' };
+
+export const isTimerPong = (message: TimerSocketMessage) => message.type === 'pong';
@@ -0,0 +1,62 @@
+/**
+ * Year-over-year topic trend calculations
+ */
+import { Question } from '@/types';
+
+export interface TopicTrend {
+  topic: string;
+  total: number;
+  countsByYear: Record<number, number>;
+  lastAppeared: number;
+  averageGap: number | null;
+  isDue: boolean;
+}
+
+export interface TrendMatrix {
+  years: number[];
+  trends: TopicTrend[];
+}
+
+// A topic seen only once is considered due after this many absent years
+const SINGLE_APPEARANCE_GAP = 2;
+
+export const buildTrendMatrix = (questions: Question[]): TrendMatrix => {
+  const byTopic: Record<string, Record<number, number>> = {};
+  const lastSeen: Record<string, number> = {};
+  const yearSet = new Set<number>();
+
+  questions.forEach(q => {
+    if (!q.year) return;
+    const topic = q.topic || 'General';
+    yearSet.add(q.year);
+    byTopic[topic] = byTopic[topic] || {};
+    byTopic[topic][q.year] = (byTopic[topic][q.year] || 0) + 1;
+    lastSeen[topic] = Math.max(lastSeen[topic] || 0, q.last_appeared || 0, q.year);
+  });
+
+  const years = Array.from(yearSet).sort((a, b) => a - b);
+  const latestYear = years[years.length - 1];
+
+  const trends = Object.keys(byTopic).map(topic => {
+    const appearances = Object.keys(byTopic[topic]).map(Number).sort((a, b) => a - b);
+    const gaps = appearances.slice(1).map((year, i) => year - appearances[i]);
+    const averageGap = gaps.length > 0
+      ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length
+      : null;
+    const absentFor = latestYear - lastSeen[topic];
+
+    return {
+      topic,
+      total: appearances.reduce((sum, year) => sum + byTopic[topic][year], 0),
+      countsByYear: byTopic[topic],
+      lastAppeared: lastSeen[topic],
+      averageGap,
+      isDue: absentFor > 0 && absentFor >= Math.round(averageGap ?? SINGLE_APPEARANCE_GAP),
+    };
+  });
+
+  return {
+    years,
+    trends: trends.sort((a, b) => b.total - a.total),
+  };
+};
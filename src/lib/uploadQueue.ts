@@ -0,0 +1,34 @@
+/**
+ * Runs a batch of uploads a few at a time
+ */
+import { RetryPolicy } from '@/lib/api';
+
+// Enough to keep the connection busy without making the backend parse ten PDFs at once
+export const UPLOAD_CONCURRENCY = 3;
+
+// Automatic retries per file for transient failures; longer delays than GETs since uploads are heavy
+export const UPLOAD_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelay: 2000, maxDelay: 10000 };
+
+/**
+ * Calls worker for every item with at most `limit` calls in flight. Workers are expected to
+ * handle their own failures; a rejection stops that lane from picking up further items.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runLane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, () => runLane());
+  await Promise.all(lanes);
+  return results;
+};
@@ -0,0 +1,107 @@
+/**
+ * Minimal runtime schemas for checking backend responses against src/types
+ */
+import { ContractError } from '@/lib/errors';
+
+// Raised inside schemas, before the endpoint is known; parseResponse turns it into a ContractError
+class SchemaMismatch {
+  constructor(public path: string, public expected: string, public received: unknown) {}
+}
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export const mismatch = (path: string, expected: string, received: unknown): never => {
+  throw new SchemaMismatch(path, expected, received);
+};
+
+export const string: Schema<string> = (value, path) =>
+  typeof value === 'string' ? value : mismatch(path, 'a string', value);
+
+export const number: Schema<number> = (value, path) =>
+  typeof value === 'number' && !isNaN(value) ? value : mismatch(path, 'a number', value);
+
+export const boolean: Schema<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : mismatch(path, 'a boolean', value);
+
+export const unknownValue: Schema<unknown> = (value) => value;
+
+export const literal = <T extends string>(...options: T[]): Schema<T> => (value, path) =>
+  options.includes(value as T) ? (value as T) : mismatch(path, `one of ${options.join(', ')}`, value);
+
+// Missing and null values both become undefined
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : schema(value, path);
+
+export const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => (value, path) =>
+  value === undefined || value === null ? fallback : schema(value, path);
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path) =>
+  Array.isArray(value)
+    ? value.map((entry, index) => item(entry, childPath(path, index)))
+    : mismatch(path, 'an array', value);
+
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return mismatch(path, 'an object', value);
+  }
+  return Object.keys(value).reduce<Record<string, T>>((acc, key) => {
+    acc[key] = item((value as Record<string, unknown>)[key], childPath(path, key));
+    return acc;
+  }, {});
+};
+
+// Checks the listed fields; anything else on the object is dropped
+export const object = <S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return mismatch(path, 'an object', value);
+    }
+    const result = {} as { [K in keyof S]: Infer<S[K]> };
+    (Object.keys(shape) as (keyof S)[]).forEach(key => {
+      result[key] = shape[key]((value as Record<string, unknown>)[key as string], childPath(path, key as string));
+    });
+    return result;
+  };
+
+// Tries each schema in turn and reports the last mismatch if none fit
+export const oneOf = <T>(...schemas: Schema<T>[]): Schema<T> => (value, path) => {
+  let lastMismatch: SchemaMismatch | null = null;
+  for (const schema of schemas) {
+    try {
+      return schema(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaMismatch)) throw error;
+      lastMismatch = error;
+    }
+  }
+  throw lastMismatch;
+};
+
+export const transform = <A, B>(schema: Schema<A>, fn: (value: A, path: string) => B): Schema<B> =>
+  (value, path) => fn(schema(value, path), path);
+
+export const parseResponse = <T>(schema: Schema<T>, value: unknown, endpoint: string): T => {
+  try {
+    return schema(value, '');
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      throw new ContractError(endpoint, error.path, error.expected, error.received);
+    }
+    throw error;
+  }
+};
+
+// For untrusted input where a mismatch is expected and simply ignored
+export const tryParse = <T>(schema: Schema<T>, value: unknown): T | null => {
+  try {
+    return schema(value, '');
+  } catch (error) {
+    if (error instanceof SchemaMismatch) return null;
+    throw error;
+  }
+};
@@ -3,9 +3,11 @@
  */
 
 export interface Question {
-  id: string;
+  // Missing when the backend did not send one; never made up on the client
+  id?: string;
   text: string;
   topic?: string;
+  subject?: string;
   year?: number;
   difficulty?: string;
   importance_score: number;
@@ -13,6 +15,17 @@ export interface Question {
   last_appeared?: number;
 }
 
+export interface SimilarQuestion extends Question {
+  similarity: number;
+}
+
+export interface RepeatedQuestion {
+  text: string;
+  frequency: number;
+  years: number[];
+  topic?: string;
+}
+
 export interface TopicAnalysis {
   topic: string;
   frequency: number;
@@ -30,6 +43,29 @@ export interface PaperUploadResponse {
   topics_identified: string[];
 }
 
+export interface Paper {
+  id: string;
+  filename: string;
+  subject?: string;
+  year?: number;
+  uploaded_at?: string;
+  extracted_text_length: number;
+  questions_extracted: number;
+  topics_identified: string[];
+}
+
+export interface PaperDetail extends Paper {
+  questions: Question[];
+}
+
+// A question as corrected during review; questions split off from another have no id yet
+export interface ReviewedQuestion {
+  id?: string;
+  text: string;
+  topic?: string;
+  difficulty?: string;
+}
+
 export interface StudySession {
   topic: string;
   duration_minutes: number;
@@ -37,15 +73,90 @@ export interface StudySession {
   questions_to_cover: string[];
   day: number;
   session_number: number;
+  // Slot the session was first planned in (day-session), kept when a rebalance moves it
+  origin_key?: string;
 }
 
 export interface StudySchedule {
+  // Only ever an id issued by the backend
+  id?: string;
+  // Pins the progress key of a plan without a backend id after its sessions change locally
+  local_key?: string;
   total_hours: number;
   total_sessions: number;
   sessions: StudySession[];
   topic_distribution: { [key: string]: number };
   start_date?: string;
   exam_date?: string;
+  // Minutes between sessions the plan was generated with
+  break_duration?: number;
+}
+
+export type SessionStatus = 'completed' | 'skipped' | 'partial';
+
+export interface SessionProgress {
+  day: number;
+  session_number: number;
+  topic: string;
+  status: SessionStatus;
+  actual_minutes: number;
+  recorded_at: string;
+}
+
+export type Confidence = 'confident' | 'shaky' | 'unknown';
+
+export interface PracticeMark {
+  confidence: Confidence;
+  note?: string;
+  attempts: number;
+  marked_at: string;
+}
+
+export interface ReviewRecord {
+  reviewed_at: string;
+  confidence: Confidence;
+  // Days until the next review that this grade produced
+  interval: number;
+}
+
+// Spaced-repetition state of one question, with enough of the question to show it on its own
+export interface ReviewItem {
+  text: string;
+  subject?: string;
+  topic?: string;
+  importance_score: number;
+  frequency: number;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  due: string;
+  history: ReviewRecord[];
+}
+
+export interface StudyPlan {
+  schedule: StudySchedule;
+  day: number;
+  sessions: StudySession[];
+}
+
+export interface ScheduleParameters {
+  user_id?: string;
+  subject?: string;
+  available_hours: number;
+  study_duration?: number;
+  break_duration?: number;
+  start_date?: string;
+  exam_date?: string;
+  topics_to_include?: string[];
+  // Minutes per day already taken by spaced-repetition reviews, starting at start_date
+  review_minutes_per_day?: number[];
+  // False generates without storing the schedule, for parts of a plan that is saved as a whole
+  save?: boolean;
+}
+
+export interface SavedSchedule extends StudySchedule {
+  created_at?: string;
+  parameters: ScheduleParameters;
 }
 
 export interface TimerState {
@@ -56,6 +167,11 @@ export interface TimerState {
   topic?: string;
 }
 
+export interface TimerActionResult {
+  message?: string;
+  state?: TimerState;
+}
+
 export interface TimerConfig {
   study_duration: number;
   break_duration: number;
@@ -66,7 +182,7 @@ export interface TimerConfig {
 export interface AnalysisResponse {
   total_questions: number;
   topics: TopicAnalysis[];
-  repeated_questions: any[];
+  repeated_questions: RepeatedQuestion[];
   important_topics: string[];
   predictions: Question[];
   success: boolean;
@@ -80,3 +196,26 @@ export interface TimerStats {
   is_break: boolean;
   time_remaining: string;
 }
+
+// Focus and break time counted in the browser while the timer backend was unreachable
+export interface OfflineLedger {
+  sessions_completed: number;
+  study_minutes: number;
+  break_minutes: number;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+export interface AuthSession {
+  access_token: string;
+  refresh_token?: string;
+  user: User;
+}
+
+export interface HealthStatus {
+  status?: string;
+}